@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { analyze, ConfigError, ParseError, ProjectError } from '..';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'unimported-'));
+
+function createProject(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(root, 'project-'));
+
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.join(dir, path.dirname(name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+
+  return fs.realpathSync(dir);
+}
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+it('should analyse the project that contains cwd, without changing the work dir', async () => {
+  const cwd = process.cwd();
+  const exit = jest.spyOn(process, 'exit');
+  const dir = createProject({
+    'package.json': '{ "main": "index.js", "dependencies": { "lodash": "*" } }',
+    'index.js': `import a from './a';`,
+    'a.js': '',
+    'unused.js': '',
+    'lib/b.js': '',
+  });
+
+  const report = await analyze({ cwd: path.join(dir, 'lib') });
+
+  expect(process.cwd()).toBe(cwd);
+  expect(exit).not.toHaveBeenCalled();
+  expect(report.context.cwd).toBe(dir);
+  expect(report.result).toMatchObject({
+    clean: false,
+    unimported: ['lib/b.js', 'unused.js'],
+    unused: ['lodash'],
+  });
+  expect(Array.from(report.graph.files.keys())).toEqual([
+    `${dir}/a.js`,
+    `${dir}/index.js`,
+  ]);
+  expect(report.graph.files.get(`${dir}/index.js`)?.imports).toMatchObject([
+    { path: `${dir}/a.js`, type: 'source_file' },
+  ]);
+
+  exit.mockRestore();
+});
+
+it('should apply config overrides on top of .unimportedrc.json', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    '.unimportedrc.json': '{ "ignoreUnimported": ["a.js"] }',
+    'index.js': '',
+    'a.js': '',
+    'b.js': '',
+  });
+
+  const report = await analyze({
+    cwd: dir,
+    config: { entry: ['b.js'] },
+  });
+
+  expect(report.context.config.entryFiles.map((x) => x.file)).toEqual(['b.js']);
+  expect(report.result.unimported).toEqual(['index.js']);
+});
+
+it('should throw typed errors', async () => {
+  await expect(analyze({ cwd: createProject({}) })).rejects.toBeInstanceOf(
+    ProjectError,
+  );
+
+  await expect(
+    analyze({
+      cwd: createProject({
+        'package.json': '{ "main": "index.js" }',
+        '.unimportedrc.json': '{ "entry": ["index.js"} }',
+      }),
+    }),
+  ).rejects.toBeInstanceOf(ConfigError);
+
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'index.js': 'not valid',
+  });
+
+  await expect(analyze({ cwd: dir })).rejects.toMatchObject({
+    name: 'ParseError',
+    path: `${dir}/index.js`,
+  });
+  await expect(analyze({ cwd: dir })).rejects.toBeInstanceOf(ParseError);
+});
+
+it('should return warnings instead of printing them', async () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const error = jest
+    .spyOn(console, 'error')
+    .mockImplementation(() => undefined);
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'tsconfig.json': '{ "compilerOptions": ',
+    'webpack.config.js': `module.exports = { resolve: { alias: getAliases() } };`,
+    'index.js': '',
+  });
+
+  const report = await analyze({ cwd: dir });
+
+  expect(warn).not.toHaveBeenCalled();
+  expect(error).not.toHaveBeenCalled();
+  expect(report.warnings).toEqual(
+    expect.arrayContaining([
+      expect.stringMatching(/file does not contain valid json: tsconfig.json/),
+      expect.stringMatching(
+        /unable to read the aliases from webpack.config.js/,
+      ),
+    ]),
+  );
+
+  warn.mockRestore();
+  error.mockRestore();
+});
+
+it('should read the config again on every call', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'index.js': '',
+    'a.js': '',
+  });
+
+  expect((await analyze({ cwd: dir })).result.unimported).toEqual(['a.js']);
+
+  fs.writeFileSync(
+    path.join(dir, '.unimportedrc.json'),
+    '{ "ignoreUnimported": ["a.js"] }',
+  );
+
+  expect((await analyze({ cwd: dir })).result.unimported).toEqual([]);
+});
+
+it('should store the cache when caching is enabled', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'index.js': `import a from './a';`,
+    'a.js': '',
+  });
+  const cacheDir = path.join(dir, 'node_modules/.cache/unimported');
+
+  await analyze({ cwd: dir });
+  expect(fs.existsSync(cacheDir)).toBe(false);
+
+  await analyze({ cwd: dir, cache: true });
+  expect(fs.readdirSync(cacheDir).length).toBeGreaterThan(0);
+});
@@ -7,7 +7,6 @@ import { main, CliArguments } from '..';
 import { purgeCache } from '../cache';
 
 import FileEntryCache from 'file-entry-cache';
-import { __clearCachedConfig } from '../config';
 
 const mkdir = util.promisify(fs.mkdir);
 const rmdir = util.promisify(fs.rm);
@@ -44,6 +43,20 @@ async function exec(
     ignoreUntracked = false,
     cache = true,
     clearCache = false,
+    unusedExports = false,
+    fix = false,
+    fixDeps = false,
+    checkDevDependencies = false,
+    dryRun = false,
+    reportBuiltins = false,
+    format,
+    workspaces,
+    workspace,
+    why,
+    watch,
+    changedSince,
+    baseline,
+    writeBaseline,
   }: Partial<CliArguments> = {},
 ): Promise<{ exitCode: number | null; stdout: string; stderr: string }> {
   const originalExit = process.exit;
@@ -85,6 +98,20 @@ async function exec(
       ignoreUntracked,
       cache,
       clearCache,
+      unusedExports,
+      fix,
+      fixDeps,
+      checkDevDependencies,
+      dryRun,
+      reportBuiltins,
+      format,
+      workspaces,
+      workspace,
+      why,
+      watch,
+      changedSince,
+      baseline,
+      writeBaseline,
     });
 
     return { exitCode: exitCode ?? 0, stdout, stderr };
@@ -130,7 +157,6 @@ async function createProject(
 }
 
 beforeEach(() => {
-  __clearCachedConfig();
   purgeCache();
 });
 
@@ -213,6 +239,19 @@ cases(
       exitCode: 1,
       stdout: /1 unresolved imports.*.\/foo/s,
     },
+    {
+      name: 'should report the location of unresolved imports',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import a from './a';\n  import foo from './foo';`,
+        },
+        { name: 'a.js', content: `\n\nconst foo = require('./foo');` },
+      ],
+      exitCode: 1,
+      stdout: /\.\/foo imported from a.js:3:13, index.js:2:3/s,
+    },
     {
       name: 'should ignore untracked files that are not imported',
       files: [
@@ -268,302 +307,324 @@ cases(
       stdout: /1 unimported files.*dangling.js/s,
     },
     {
-      name: 'Invalid json',
+      name: 'should report line numbers of imports in vue files',
       files: [
+        { name: 'package.json', content: '{ "main" : "index.js" }' },
+        { name: 'index.js', content: `import foo from './app.vue';` },
+        {
+          name: 'app.vue',
+          content: [
+            '<template><div>html</div></template>',
+            '<script>',
+            "  import { util } from './util.js';",
+            '</script>',
+          ].join('\n'),
+        },
         {
           name: '.unimportedrc.json',
-          content: '{ "entry": ["index.js"} }',
+          content: '{ "extensions": [".js", ".vue"] }',
         },
       ],
       exitCode: 1,
-      stdout: '',
+      stdout: /\.\/util\.js imported from app\.vue:3:3/s,
     },
     {
-      name: 'next project',
+      name: 'should parse all script blocks of vue components',
       files: [
+        { name: 'package.json', content: '{ "main" : "index.js" }' },
+        { name: 'index.js', content: `import foo from './app.vue';` },
         {
-          name: '.next/test.json',
-          content: '{ "entry": ["index.js"] }',
+          name: 'app.vue',
+          content: `
+<script>
+import { options } from './options.js';
+</script>
+<script setup lang="ts" generic="T extends Record<string, U>">
+import { util } from './util';
+const props = defineProps<{ items: T[] }>();
+</script>
+<script src="./external.js"></script>
+`,
         },
+        { name: 'options.js', content: '' },
+        { name: 'util.ts', content: '' },
+        { name: 'external.js', content: '' },
+        { name: 'dangling.js', content: '' },
         {
-          name: 'package.json',
-          content:
-            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+          name: '.unimportedrc.json',
+          content: '{ "extensions": [".js", ".ts", ".vue"] }',
         },
-        { name: 'index.js', content: `import foo from './foo';` },
-        { name: 'foo.js', content: '' },
       ],
       exitCode: 1,
-      stdout: /1 unused dependencies.*@test\/dependency/s,
+      stdout: /1 unimported files.*dangling.js/s,
     },
     {
-      name: 'should identify unused dependencies',
+      name: 'should parse svelte and astro components',
       files: [
+        { name: 'package.json', content: '{ "main" : "index.js" }' },
         {
-          name: 'package.json',
-          content:
-            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+          name: 'index.js',
+          content: `import './Page.astro';`,
         },
-        { name: 'index.js', content: `import foo from './foo';` },
-        { name: 'foo.js', content: '' },
-      ],
-      exitCode: 1,
-      stdout: /1 unused dependencies.*@test\/dependency/s,
-    },
-    {
-      name: 'should not report issues when everything is used',
-      files: [
         {
-          name: 'package.json',
-          content:
-            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+          name: 'Page.astro',
+          content: `---
+import Button from './Button.svelte';
+---
+<Button />
+<script>
+  import './client';
+</script>
+`,
         },
         {
-          name: 'index.js',
+          name: 'Button.svelte',
           content: `
-import foo from './foo';
-import bar from './bar';
+<script context="module" lang="ts">
+  export { load } from './load';
+</script>
+<script>
+  import { label } from './label';
+</script>
+<button>{label}</button>
 `,
         },
-        { name: 'foo.js', content: '' },
-        { name: 'bar.js', content: 'import test from "@test/dependency"' },
-      ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./,
-    },
-    {
-      name: 'should not report entry file loaded from config, as missing',
-      files: [
-        { name: 'package.json', content: '{}' },
+        { name: 'client.js', content: '' },
+        { name: 'load.ts', content: '' },
+        { name: 'label.js', content: '' },
+        { name: 'dangling.js', content: '' },
         {
           name: '.unimportedrc.json',
-          content: '{ "entry": ["index.js"] }',
-        },
-        {
-          name: 'index.js',
-          content: `import a from './a'`,
-        },
-        {
-          name: 'a.js',
-          content: `export default null`,
+          content: '{ "extensions": [".js", ".ts", ".svelte", ".astro"] }',
         },
       ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files/,
+      exitCode: 1,
+      stdout: /1 unimported files.*dangling.js/s,
     },
     {
-      name: 'should use all variants of import/export',
+      name: 'should follow stylesheet imports and asset references',
       files: [
         {
           name: 'package.json',
-          content: '{ "main": "index.js" }',
-        },
-        {
-          name: 'index.js',
-          content: `import a from './a'`,
+          content:
+            '{ "main": "index.js", "dependencies": { "bootstrap": "1.0.0" } }',
         },
+        { name: 'index.js', content: `import './styles/main.scss';` },
         {
-          name: 'a.js',
+          name: 'styles/main.scss',
           content: `
-import {b as a} from './b'
-const promise = import('./d')
-const templatePromise = import(\`./e\`)
-export {a}
-export {b} from './b'
-export * from './c'
-export default promise
+@use 'variables';
+@use 'components';
+@import '~bootstrap/scss/grid';
+.logo { background: url(../img/logo.png); }
 `,
         },
-        { name: 'b.js', content: 'export const b = 2;' },
-        { name: 'c.js', content: 'const c = 3; export {c}' },
-        { name: 'd.js', content: 'export default 42' },
-        { name: 'e.js', content: 'export default 42' },
+        { name: 'styles/_variables.scss', content: '' },
+        {
+          name: 'styles/components/_index.scss',
+          content: `@forward 'button';`,
+        },
+        { name: 'styles/components/_button.scss', content: '' },
+        { name: 'styles/components/_card.scss', content: '' },
+        { name: 'img/logo.png', content: '' },
+        { name: 'img/unused.png', content: '' },
+        {
+          name: '.unimportedrc.json',
+          content: '{ "extensions": [".js", ".scss", ".png"] }',
+        },
       ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./,
+      exitCode: 1,
+      stdout:
+        /unused dependencies\s+: 0.*2 unimported files.*img\/unused\.png.*styles\/components\/_card\.scss/s,
     },
     {
-      name: 'should identify ts paths imports',
+      name: 'should extract imports with plugins',
       files: [
-        { name: 'package.json', content: '{ "main": "index.ts" }' },
-        { name: 'index.ts', content: `import foo from '@root/foo';` },
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import query from './query.graphql';` },
         {
-          name: 'foo.ts',
+          name: 'query.graphql',
+          content: '#import "./fragment.graphql"\n#import "./missing.graphql"',
+        },
+        { name: 'fragment.graphql', content: '' },
+        { name: 'unused.graphql', content: '' },
+        {
+          name: 'tools/unimported-graphql.js',
           content: `
-            class Foo extends Bar {
-              override baz() {}
-            }
-          `,
+module.exports = {
+  extensions: ['.graphql'],
+  extract(code) {
+    return code.split('\\n').flatMap((line, idx) => {
+      const match = line.match(/^#import "(.*)"/);
+      return match ? [{ path: match[1], loc: { line: idx + 1, column: 1 } }] : [];
+    });
+  },
+};
+`,
         },
-        { name: 'bar.ts', content: '' },
         {
-          name: 'tsconfig.json',
-          content: '{ "compilerOptions": { "paths": { "@root": ["."] } } }',
+          name: '.unimportedrc.json',
+          content:
+            '{ "plugins": ["./tools/unimported-graphql.js"], "ignorePatterns": ["tools/**"] }',
         },
       ],
       exitCode: 1,
-      stdout: /1 unimported files.*bar.ts/s,
+      stdout:
+        /1 unresolved imports.*\.\/missing\.graphql imported from query\.graphql:2:1.*1 unimported files.*unused\.graphql/s,
     },
     {
-      name: 'should identify config alias imports',
+      name: 'should report invalid plugins',
       files: [
-        { name: 'package.json', content: '{ "main": "index.ts" }' },
-        { name: 'index.ts', content: `import foo from '@root/foo';` },
-        { name: 'foo.ts', content: '' },
-        { name: 'bar.ts', content: '' },
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: '' },
+        { name: 'plugin.js', content: 'module.exports = {};' },
         {
           name: '.unimportedrc.json',
-          content: '{ "aliases": { "@root": ["."] }, "rootDir": "/" }',
+          content: '{ "plugins": ["./plugin.js"] }',
         },
       ],
       exitCode: 1,
-      stdout: /1 unimported files.*bar.ts/s,
+      stdout: /invalid plugin \.\/plugin\.js/,
     },
     {
-      name: 'should identify alias index imports',
+      name: 'Invalid json',
       files: [
-        { name: 'package.json', content: '{ "main": "index.ts" }' },
-        { name: 'index.ts', content: `import { random } from '@helpers';` },
-        { name: 'helpers/index.ts', content: '' },
         {
           name: '.unimportedrc.json',
-          content: '{ "aliases": { "@helpers": ["./helpers"] } }',
+          content: '{ "entry": ["index.js"} }',
         },
       ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./,
+      exitCode: 1,
+      stdout: '',
     },
     {
-      name: 'should identify alias file imports',
+      name: 'next project',
       files: [
-        { name: 'package.json', content: '{ "main": "index.ts" }' },
-        { name: 'index.ts', content: `import { random } from '@random';` },
-        { name: 'helpers/random.ts', content: '' },
         {
-          name: '.unimportedrc.json',
-          content: '{ "aliases": { "@random": ["./helpers/random"] } }',
+          name: '.next/test.json',
+          content: '{ "entry": ["index.js"] }',
+        },
+        {
+          name: 'package.json',
+          content:
+            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
         },
+        { name: 'index.js', content: `import foo from './foo';` },
+        { name: 'foo.js', content: '' },
       ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./,
+      exitCode: 1,
+      stdout: /1 unused dependencies.*@test\/dependency/s,
     },
     {
-      name: 'should identify monorepo-type sibling modules',
-      baseDir: 'packages/A',
+      name: 'next project with app router',
       files: [
         {
-          name: 'packages/A/package.json',
+          name: 'package.json',
           content:
-            '{ "main": "index.js", "repository": { "directory": "path/goes/here" } }',
+            '{ "dependencies": { "next": "1.0.0", "react": "1.0.0", "react-dom": "1.0.0", "next-mdx": "1.0.0" } }',
         },
         {
-          name: 'packages/A/index.js',
-          content: `import foo from 'B/foo';`,
+          name: 'next.config.mjs',
+          content: `import mdx from 'next-mdx';\nexport default mdx({});`,
         },
-        { name: 'packages/B/foo.js', content: '' },
-        { name: 'packages/C/bar.js', content: '' },
-      ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./,
-    },
-    {
-      name: 'should support rootDir config',
-      files: [
-        { name: 'package.json', content: '{ "main": "src/index.ts" }' },
-        { name: 'src/index.ts', content: `import '/nested';` },
         {
-          name: 'src/nested/index.ts',
-          content: `import foo from '/nested/foo';`,
+          name: 'src/middleware.ts',
+          content: `import { NextResponse } from 'next/server';`,
         },
-        { name: 'src/nested/foo.ts', content: '' },
-        { name: 'src/nested/bar.ts', content: '' },
+        { name: 'src/app/layout.tsx', content: '' },
         {
-          name: '.unimportedrc.json',
-          content: '{ "rootDir": "src" }',
+          name: 'src/app/page.tsx',
+          content: `import Button from '../components/button';`,
         },
+        { name: 'src/app/(marketing)/about/loading.tsx', content: '' },
+        { name: 'src/app/blog/[slug]/opengraph-image.tsx', content: '' },
+        { name: 'src/app/api/hello/route.ts', content: '' },
+        { name: 'src/app/blog/helpers.ts', content: '' },
+        { name: 'src/components/button.tsx', content: '' },
       ],
       exitCode: 1,
-      stdout: /1 unimported files.*bar.ts/s,
-    },
-    {
-      name: 'should support root slash import',
-      files: [
-        { name: 'package.json', content: '{ "main": "index.js" }' },
-        { name: 'index.js', content: `import foo from '/foo';` },
-        { name: 'foo/index.js', content: `import bar from '/bar';` },
-        { name: 'bar.js', content: '' },
-      ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      stdout:
+        /unused dependencies\s+: 0.*1 unimported files.*src\/app\/blog\/helpers\.ts/s,
     },
     {
-      name: 'should support root slash import in meteor project',
+      name: 'next project with pages router',
       files: [
         {
           name: 'package.json',
-          content:
-            '{ "meteor" : { "mainModule": { "client": "client.js", "server": "server.js" } } }',
+          content: '{ "devDependencies": { "next": "1.0.0" } }',
         },
-        { name: 'client.js', content: `import foo from '/foo';` },
-        { name: 'server.js', content: '' },
-        { name: '.meteor/release', content: '' },
-        { name: 'foo.js', content: '' },
+        { name: 'pages/index.js', content: `import '../lib/api';` },
+        { name: 'pages/api/users.js', content: '' },
+        { name: 'lib/api.js', content: '' },
+        { name: 'instrumentation.js', content: '' },
       ],
       exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      stdout: /There don't seem to be any unimported files./,
     },
     {
-      name: 'should support type imports for typescript projects',
+      name: 'should expand import.meta.glob to the matched files',
       files: [
-        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'package.json', content: '{ "main": "src/index.js" }' },
         {
-          name: 'index.ts',
-          content: `import foo from './foo'; import type { Bar } from './bar'`,
+          name: 'src/index.js',
+          content: `
+const modules = import.meta.glob('./modules/*.js', { eager: true });
+const pages = import.meta.glob(['/src/pages/**/*.js', '!**/draft.js']);
+`,
         },
-        { name: 'foo.ts', content: '' },
-        { name: 'bar.ts', content: '' },
-      ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
-    },
-    {
-      name: 'should report parse failure for invalid file',
-      files: [
-        { name: 'package.json', content: '{ "main": "index.js" }' },
-        { name: 'index.js', content: `not valid` },
+        { name: 'src/modules/a.js', content: '' },
+        { name: 'src/modules/b.js', content: `import '../shared';` },
+        { name: 'src/shared.js', content: '' },
+        { name: 'src/pages/home.js', content: '' },
+        { name: 'src/pages/blog/post.js', content: '' },
+        { name: 'src/pages/draft.js', content: '' },
+        { name: 'src/unused.js', content: '' },
       ],
       exitCode: 1,
-      stderr: /Failed parsing.*\/index.js/s,
+      stdout: /2 unimported files.*src\/pages\/draft\.js.*src\/unused\.js/s,
     },
     {
-      name: 'should ignore non import/require paths',
+      name: 'should expand require.context to the matched files',
       files: [
         { name: 'package.json', content: '{ "main": "index.js" }' },
         {
           name: 'index.js',
-          content: `import fs from 'fs'; const dependency = fs.readFileSync('some_path.js');`,
+          content: `
+const icons = require.context('./icons', false, /\\.js$/);
+const locales = require.context('./locales');
+`,
         },
+        { name: 'icons/home.js', content: '' },
+        { name: 'icons/nested/user.js', content: '' },
+        { name: 'icons/README.md', content: '' },
+        { name: 'locales/en/index.js', content: '' },
       ],
-      exitCode: 0,
-      stdout: '',
+      exitCode: 1,
+      stdout: /1 unimported files.*icons\/nested\/user\.js/s,
     },
     {
-      name: 'should not report unimported file which is in ignore file',
+      name: 'should widen dynamic imports with expressions to globs',
       files: [
         { name: 'package.json', content: '{ "main": "index.js" }' },
-        { name: 'index.js', content: `import foo from './foo';` },
         {
-          name: '.unimportedrc.json',
-          content: '{"ignoreUnimported": ["bar.js"]}',
+          name: 'index.js',
+          content: `
+const messages = await import(\`./locales/\${lang}.js\`);
+const plugin = require('./plugins/' + name + '/index.js');
+const other = require(name);
+`,
         },
-        { name: 'foo.js', content: '' },
-        { name: 'bar.js', content: '' },
+        { name: 'locales/en.js', content: '' },
+        { name: 'locales/nl.js', content: '' },
+        { name: 'plugins/a/index.js', content: '' },
+        { name: 'plugins/a/util.js', content: '' },
       ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      exitCode: 1,
+      stdout:
+        /1 unimported files.*plugins\/a\/util\.js.*2 dynamic imports widened to globs.*index\.js:2:24 widened to \.\/locales\/\*\.js.*index\.js:3:16 widened to \.\/plugins\/\*\/index\.js/s,
     },
     {
-      name: 'should not report unused dependency which is in ignore file',
+      name: 'should identify unused dependencies',
       files: [
         {
           name: 'package.json',
@@ -571,286 +632,1035 @@ export default promise
             '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
         },
         { name: 'index.js', content: `import foo from './foo';` },
-        {
-          name: '.unimportedrc.json',
-          content: '{"ignoreUnused": ["@test/dependency"]}',
-        },
         { name: 'foo.js', content: '' },
       ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      exitCode: 1,
+      stdout: /1 unused dependencies.*@test\/dependency/s,
     },
     {
-      name: 'should not report unresolved import which is in ignore file',
+      name: 'should not report issues when everything is used',
       files: [
         {
           name: 'package.json',
-          content: '{ "main": "index.js"  }',
+          content:
+            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
         },
-        { name: 'index.js', content: `import foo from './foo';` },
         {
-          name: '.unimportedrc.json',
-          content: '{"ignoreUnresolved": ["./foo"]}',
+          name: 'index.js',
+          content: `
+import foo from './foo';
+import bar from './bar';
+`,
         },
+        { name: 'foo.js', content: '' },
+        { name: 'bar.js', content: 'import test from "@test/dependency"' },
       ],
       exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      stdout: /There don't seem to be any unimported files./,
     },
     {
-      name: 'should not report entry file as missing',
+      name: 'should not report node built-ins as unresolved',
       files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
         {
-          name: 'package.json',
-          content: '{ "main": "index.js"  }',
+          name: 'index.js',
+          content: `
+import fs from 'fs';
+import { readFile } from 'fs/promises';
+import path from 'node:path';
+import test from 'node:test';
+`,
         },
       ],
-      exitCode: 1,
-      stdout: '',
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
     },
     {
-      name: 'can work with glob patterns in config file',
+      name: 'should prefer declared dependencies over node built-ins',
       files: [
-        { name: 'package.json', content: '{}' },
-        {
-          name: '.unimportedrc.json',
-          content: `{
-            "entry": ["src/index.tsx", "src/**/*.test.{j,t}s"],
-            "ignoreUnresolved": [],
-            "ignoreUnimported": ["src/setup{Proxy,Tests}.js"],
-            "ignoreUnused": [],
-            "ignorePatterns": ["**/node_modules/**", "**/*.d.ts"]
-          }`,
-        },
-        { name: 'src/index.tsx', content: `import './imported';` },
-        { name: 'src/imported.ts', content: 'export default null;' },
         {
-          name: 'src/__tests__/imported.test.js',
-          content: `import proxy from '../setupProxy'`,
+          name: 'package.json',
+          content:
+            '{ "main": "index.js", "dependencies": { "events": "3.0.0" } }',
         },
-        { name: 'src/setupProxy.js', content: '' },
-        { name: 'src/setupTests.js', content: '' },
-        { name: 'node_module/module/lib.js', content: '' },
-        { name: 'src/global.d.ts', content: '' },
+        { name: 'index.js', content: `import { EventEmitter } from 'events';` },
       ],
       exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      stdout: /There don't seem to be any unimported files./,
     },
     {
-      name: 'supports alias overrides per entry point',
+      name: 'should resolve subpath imports from package.json',
       files: [
-        { name: 'package.json', content: '{}' },
         {
-          name: '.unimportedrc.json',
-          content: `{
-          "entry": [{
-              "file": "src/entry-client.js",
-              "extend": { "aliases": { "create-api": ["./src/api/create-api-client"] } }
-            }, {
-              "file": "src/entry-server.js",
-              "extend": { "aliases": { "create-api": ["./src/api/create-api-server"] } }
-            }],
-          "extensions": [".js"],
-          "aliases": { "create-api": ["./src/api/create-api-server"] }
-        }`,
+          name: 'package.json',
+          content: JSON.stringify({
+            main: 'index.js',
+            imports: {
+              '#internal/*': './src/internal/*.js',
+              '#env': {
+                browser: './src/env.browser.js',
+                default: './src/env.js',
+              },
+            },
+          }),
         },
-        { name: 'src/entry-client.js', content: `import 'create-api';` },
-        { name: 'src/entry-server.js', content: `import 'create-api';` },
-        { name: 'src/api/create-api-client.js', content: `` },
-        { name: 'src/api/create-api-server.js', content: `` },
+        {
+          name: 'index.js',
+          content: `import util from '#internal/util';\nimport env from '#env';`,
+        },
+        { name: 'src/internal/util.js', content: '' },
+        { name: 'src/env.browser.js', content: '' },
+        { name: 'src/env.js', content: '' },
       ],
-      exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      exitCode: 1,
+      stdout: /1 unimported files.*src\/env.browser.js/s,
     },
     {
-      name: 'supports extension overrides per entry point',
+      name: 'should resolve subpath imports with configured conditions',
       files: [
         {
           name: 'package.json',
-          content:
-            '{ "dependencies": { "@test/client": "1", "@test/server": "1" } }',
+          content: JSON.stringify({
+            main: 'index.js',
+            imports: {
+              '#env': {
+                browser: './src/env.browser.js',
+                default: './src/env.js',
+              },
+            },
+          }),
         },
         {
           name: '.unimportedrc.json',
-          content: `{
-          "entry": [{
-              "file": "src/entry.js",
-              "label": "client",
-              "extend": { "extensions": [".client.js"] }
-            }, {
-              "file": "src/entry.js",
-              "label": "server",
-              "extend": { "extensions": [".server.js"] }
-            }],
-          "extensions": [".js"]
-        }`,
+          content: '{ "conditions": ["browser"] }',
         },
-        { name: 'src/entry.js', content: `import './config';` },
+        { name: 'index.js', content: `import env from '#env';` },
+        { name: 'src/env.browser.js', content: '' },
+        { name: 'src/env.js', content: '' },
+      ],
+      exitCode: 1,
+      stdout: /1 unimported files.*src\/env.js/s,
+    },
+    {
+      name: 'should report unknown subpath imports as unresolved',
+      files: [
         {
-          name: 'src/config.client.js',
-          content: `
-            import '@test/client';
-            import './client-only'; 
-            import './shared';
-          `,
+          name: 'package.json',
+          content: JSON.stringify({ main: 'index.js', imports: {} }),
         },
+        { name: 'index.js', content: `import util from '#internal/util';` },
+      ],
+      exitCode: 1,
+      stdout: /1 unresolved imports.*#internal\/util/s,
+    },
+    {
+      name: 'should treat the exports of package.json as entry files',
+      files: [
         {
-          name: 'src/config.server.js',
-          content: `
-            import '@test/server';
-            import './server-only'; 
-            import './shared';
-          `,
+          name: 'package.json',
+          content: JSON.stringify({
+            name: 'my-pkg',
+            exports: {
+              '.': './index.js',
+              './feature': { import: './feature.js' },
+              './plugins/*': './src/plugins/*.js',
+              './package.json': './package.json',
+            },
+          }),
         },
+        { name: 'index.js', content: '' },
+        { name: 'feature.js', content: `import './src/shared';` },
         { name: 'src/shared.js', content: '' },
-        { name: 'src/client-only.js', content: '' },
-        { name: 'src/server-only.js', content: '' },
+        { name: 'src/plugins/a.js', content: '' },
+        { name: 'src/plugins/nested/b.js', content: '' },
       ],
       exitCode: 0,
-      stdout: /There don't seem to be any unimported files./s,
+      stdout: /There don't seem to be any unimported files./,
     },
-  ],
-);
-
-// ----------------------------------------------------------------------------
-
-cases(
-  'cli integration tests with update option',
-  async (scenario) => {
-    const testProjectDir = await createProject(scenario.files);
-    const outputFile = path.join(testProjectDir, '.unimportedrc.json');
-
-    try {
-      const { exitCode } = await exec(testProjectDir, { update: true });
-
-      const outputFileContent = JSON.parse(await readFile(outputFile, 'utf-8'));
-      expect(scenario.output).toEqual(outputFileContent);
-      expect(exitCode).toBe(scenario.exitCode);
-    } finally {
-      await rmdir(testProjectDir, { recursive: true });
-    }
-  },
-  [
     {
-      name: 'should identify unimported file',
+      name: 'should add the exports of package.json to the source entry file',
       files: [
-        { name: 'package.json', content: '{ "main": "index.js" }' },
-        { name: 'index.js', content: `import foo from './foo';` },
-        { name: 'foo.js', content: '' },
-        { name: 'bar.js', content: '' },
+        {
+          name: 'package.json',
+          content: JSON.stringify({
+            source: 'src/index.js',
+            main: 'dist/index.js',
+            exports: { '.': './dist/index.js' },
+          }),
+        },
+        { name: 'src/index.js', content: `import a from './lib/a';` },
+        { name: 'src/lib/a.js', content: '' },
+        { name: 'src/lib/b.js', content: '' },
+        { name: 'dist/index.js', content: '' },
       ],
-      exitCode: 0,
-      output: {
-        ignoreUnresolved: [],
-        ignoreUnimported: ['bar.js'],
-        ignoreUnused: [],
-      },
+      exitCode: 1,
+      stdout: /1 unimported files.*lib\/b.js/s,
     },
     {
-      name: 'should identify unused dependencies',
+      name: 'should resolve self references through the exports of package.json',
       files: [
         {
           name: 'package.json',
-          content:
-            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+          content: JSON.stringify({
+            name: 'my-pkg',
+            main: 'index.js',
+            exports: { '.': './index.js', './feature': './src/feature.js' },
+          }),
         },
-        { name: 'index.js', content: `import foo from './foo';` },
-        { name: 'foo.js', content: '' },
+        {
+          name: 'index.js',
+          content: `import feature from 'my-pkg/feature';\nimport helper from 'my-pkg/helper';`,
+        },
+        { name: 'src/feature.js', content: '' },
       ],
-      exitCode: 0,
-      output: {
-        ignoreUnresolved: [],
-        ignoreUnimported: [],
-        ignoreUnused: ['@test/dependency'],
-      },
+      exitCode: 1,
+      stdout: /1 unresolved imports.*my-pkg\/helper/s,
     },
     {
-      name: 'should not ignore anything when everything is used',
+      name: 'should not report peer and optional dependencies as missing',
       files: [
         {
           name: 'package.json',
-          content:
-            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+          content: JSON.stringify({
+            main: 'index.js',
+            peerDependencies: { react: '*' },
+            optionalDependencies: { fsevents: '*' },
+          }),
         },
         {
           name: 'index.js',
-          content: `
-import foo from './foo';
-import bar from './bar';
-`,
+          content: `import React from 'react';\nimport fsevents from 'fsevents';`,
         },
-        { name: 'foo.js', content: '' },
-        { name: 'bar.js', content: 'import test from "@test/dependency"' },
+        { name: 'node_modules/react/index.js', content: '' },
+        { name: 'node_modules/fsevents/index.js', content: '' },
       ],
       exitCode: 0,
-      output: {
-        ignoreUnresolved: [],
-        ignoreUnimported: [],
-        ignoreUnused: [],
-      },
+      stdout: /There don't seem to be any unimported files./,
     },
-  ],
-);
-
-// ----------------------------------------------------------------------------
-
-cases(
-  'cli integration tests with init option',
-  async (scenario) => {
-    const testProjectDir = await createProject(scenario.files);
-    const outputFile = path.join(testProjectDir, '.unimportedrc.json');
-
-    try {
-      const { exitCode } = await exec(testProjectDir, { init: true });
-
-      const outputFileContent = JSON.parse(await readFile(outputFile, 'utf-8'));
-      expect(scenario.output).toEqual(outputFileContent);
-      expect(exitCode).toBe(scenario.exitCode);
-    } finally {
-      await rmdir(testProjectDir, { recursive: true });
-    }
-  },
-  [
     {
-      name: 'should create default ignore file',
+      name: 'should identify missing dependencies',
       files: [
-        { name: 'package.json', content: '{}' },
-        { name: 'index.js', content: '' },
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import lodash from 'lodash';\nimport sub from '@scope/pkg/sub';`,
+        },
+        { name: 'node_modules/lodash/index.js', content: '' },
+        { name: 'node_modules/@scope/pkg/sub.js', content: '' },
       ],
-      exitCode: 0,
-      output: {
-        ignorePatterns: [
-          '**/node_modules/**',
-          '**/*.stories.{js,jsx,ts,tsx}',
-          '**/*.tests.{js,jsx,ts,tsx}',
-          '**/*.test.{js,jsx,ts,tsx}',
-          '**/*.spec.{js,jsx,ts,tsx}',
-          '**/tests/**',
-          '**/__tests__/**',
-          '**/*.d.ts',
-        ],
-        ignoreUnresolved: [],
-        ignoreUnimported: [],
-        ignoreUnused: [],
-      },
+      exitCode: 1,
+      stdout:
+        /2 missing dependencies.*@scope\/pkg imported from index.js:2:1.*lodash imported from index.js:1:1/s,
     },
     {
-      name: 'should create expected ignore file for meteor project',
+      name: 'should not report declared devDependencies as missing',
       files: [
         {
           name: 'package.json',
           content:
-            '{ "meteor": { "mainModule": { "client": "", "server": "" } } }',
+            '{ "main": "index.js", "devDependencies": { "lodash": "1.0.0" } }',
         },
+        { name: 'index.js', content: `import lodash from 'lodash';` },
+        { name: 'node_modules/lodash/index.js', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should ignore missing dependencies from config',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
         {
-          name: '.meteor',
-          content: '',
+          name: '.unimportedrc.json',
+          content: '{ "ignoreMissing": ["lodash"] }',
         },
+        { name: 'index.js', content: `import lodash from 'lodash';` },
+        { name: 'node_modules/lodash/index.js', content: '' },
       ],
       exitCode: 0,
-      output: {
-        ignorePatterns: [
-          '**/node_modules/**',
-          '**/*.stories.{js,jsx,ts,tsx}',
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should not report entry file loaded from config, as missing',
+      files: [
+        { name: 'package.json', content: '{}' },
+        {
+          name: '.unimportedrc.json',
+          content: '{ "entry": ["index.js"] }',
+        },
+        {
+          name: 'index.js',
+          content: `import a from './a'`,
+        },
+        {
+          name: 'a.js',
+          content: `export default null`,
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files/,
+    },
+    {
+      name: 'should use all variants of import/export',
+      files: [
+        {
+          name: 'package.json',
+          content: '{ "main": "index.js" }',
+        },
+        {
+          name: 'index.js',
+          content: `import a from './a'`,
+        },
+        {
+          name: 'a.js',
+          content: `
+import {b as a} from './b'
+const promise = import('./d')
+const templatePromise = import(\`./e\`)
+export {a}
+export {b} from './b'
+export * from './c'
+export default promise
+`,
+        },
+        { name: 'b.js', content: 'export const b = 2;' },
+        { name: 'c.js', content: 'const c = 3; export {c}' },
+        { name: 'd.js', content: 'export default 42' },
+        { name: 'e.js', content: 'export default 42' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should identify ts paths imports',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'index.ts', content: `import foo from '@root/foo';` },
+        {
+          name: 'foo.ts',
+          content: `
+            class Foo extends Bar {
+              override baz() {}
+            }
+          `,
+        },
+        { name: 'bar.ts', content: '' },
+        {
+          name: 'tsconfig.json',
+          content: '{ "compilerOptions": { "paths": { "@root": ["."] } } }',
+        },
+      ],
+      exitCode: 1,
+      stdout: /1 unimported files.*bar.ts/s,
+    },
+    {
+      name: 'should follow the extends chain of tsconfig',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'index.ts', content: `import util from '@lib/util';` },
+        { name: 'src/lib/util.ts', content: '' },
+        {
+          name: 'tsconfig.json',
+          content: '{ "extends": "./configs/tsconfig.base" }',
+        },
+        {
+          name: 'configs/tsconfig.base.json',
+          content: JSON.stringify({
+            compilerOptions: {
+              baseUrl: '..',
+              paths: { '@lib/*': ['src/lib/*'] },
+            },
+          }),
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should follow tsconfig extends arrays and packages',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'index.ts', content: `import util from '@lib/util';` },
+        { name: 'src/lib/util.ts', content: '' },
+        {
+          name: 'tsconfig.json',
+          content:
+            '{ "extends": ["@test/tsconfig", "./configs/tsconfig.paths.json"] }',
+        },
+        {
+          name: 'node_modules/@test/tsconfig/tsconfig.json',
+          content: '{ "compilerOptions": { "strict": true } }',
+        },
+        {
+          name: 'configs/tsconfig.paths.json',
+          content: JSON.stringify({
+            compilerOptions: { paths: { '@lib/*': ['../src/lib/*'] } },
+          }),
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should use the aliases of referenced tsconfig projects',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        {
+          name: 'index.ts',
+          content: `import '~/root';\nimport './packages/a/src/index';`,
+        },
+        { name: 'src/root.ts', content: '' },
+        { name: 'packages/a/src/index.ts', content: `import '~/util';` },
+        { name: 'packages/a/src/util.ts', content: '' },
+        {
+          name: 'tsconfig.json',
+          content: JSON.stringify({
+            compilerOptions: { paths: { '~/*': ['./src/*'] } },
+            references: [{ path: './packages/a' }],
+          }),
+        },
+        {
+          name: 'packages/a/tsconfig.json',
+          content: JSON.stringify({
+            compilerOptions: { paths: { '~/*': ['./src/*'] } },
+          }),
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should read aliases from vite config',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'index.ts', content: `import util from '@/util';` },
+        { name: 'src/util.ts', content: '' },
+        {
+          name: 'vite.config.ts',
+          content: `
+import { fileURLToPath, URL } from 'node:url';
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+});
+`,
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should resolve vite aliases that start with a slash against the project root',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import x from '@/lib/x';` },
+        { name: 'src/lib/x.js', content: '' },
+        {
+          name: 'vite.config.js',
+          content: `
+export default {
+  resolve: {
+    alias: [{ find: '@', replacement: '/src' }],
+  },
+};
+`,
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should read aliases from webpack config',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import a from 'Utilities/a';\nimport config from 'config';`,
+        },
+        { name: 'src/utilities/a.js', content: '' },
+        { name: 'src/config.js', content: '' },
+        {
+          name: 'webpack.config.js',
+          content: `
+const path = require('path');
+
+module.exports = {
+  resolve: {
+    alias: {
+      Utilities: path.resolve(__dirname, 'src/utilities/'),
+      config$: path.join(__dirname, 'src', 'config.js'),
+      vue$: 'vue/dist/vue.esm.js',
+    },
+  },
+};
+`,
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should read aliases from babel and jest config',
+      files: [
+        {
+          name: 'package.json',
+          content: JSON.stringify({
+            main: 'index.js',
+            jest: {
+              moduleNameMapper: {
+                '^@app/(.*)$': '<rootDir>/src/app/$1',
+                '\\.css$': 'identity-obj-proxy',
+              },
+            },
+          }),
+        },
+        {
+          name: 'index.js',
+          content: `import a from '~/a';\nimport b from '@app/b';`,
+        },
+        { name: 'src/a.js', content: '' },
+        { name: 'src/app/b.js', content: '' },
+        {
+          name: '.babelrc',
+          content: `{
+            // comments are allowed
+            "plugins": [["module-resolver", { "alias": { "~": "./src" } }]]
+          }`,
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should identify config alias imports',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'index.ts', content: `import foo from '@root/foo';` },
+        { name: 'foo.ts', content: '' },
+        { name: 'bar.ts', content: '' },
+        {
+          name: '.unimportedrc.json',
+          content: '{ "aliases": { "@root": ["."] }, "rootDir": "/" }',
+        },
+      ],
+      exitCode: 1,
+      stdout: /1 unimported files.*bar.ts/s,
+    },
+    {
+      name: 'should identify alias index imports',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'index.ts', content: `import { random } from '@helpers';` },
+        { name: 'helpers/index.ts', content: '' },
+        {
+          name: '.unimportedrc.json',
+          content: '{ "aliases": { "@helpers": ["./helpers"] } }',
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should identify alias file imports',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        { name: 'index.ts', content: `import { random } from '@random';` },
+        { name: 'helpers/random.ts', content: '' },
+        {
+          name: '.unimportedrc.json',
+          content: '{ "aliases": { "@random": ["./helpers/random"] } }',
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should identify monorepo-type sibling modules',
+      baseDir: 'packages/A',
+      files: [
+        {
+          name: 'packages/A/package.json',
+          content:
+            '{ "main": "index.js", "repository": { "directory": "path/goes/here" } }',
+        },
+        {
+          name: 'packages/A/index.js',
+          content: `import foo from 'B/foo';`,
+        },
+        { name: 'packages/B/foo.js', content: '' },
+        { name: 'packages/C/bar.js', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should support rootDir config',
+      files: [
+        { name: 'package.json', content: '{ "main": "src/index.ts" }' },
+        { name: 'src/index.ts', content: `import '/nested';` },
+        {
+          name: 'src/nested/index.ts',
+          content: `import foo from '/nested/foo';`,
+        },
+        { name: 'src/nested/foo.ts', content: '' },
+        { name: 'src/nested/bar.ts', content: '' },
+        {
+          name: '.unimportedrc.json',
+          content: '{ "rootDir": "src" }',
+        },
+      ],
+      exitCode: 1,
+      stdout: /1 unimported files.*bar.ts/s,
+    },
+    {
+      name: 'should support root slash import',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import foo from '/foo';` },
+        { name: 'foo/index.js', content: `import bar from '/bar';` },
+        { name: 'bar.js', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'should support root slash import in meteor project',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "meteor" : { "mainModule": { "client": "client.js", "server": "server.js" } } }',
+        },
+        { name: 'client.js', content: `import foo from '/foo';` },
+        { name: 'server.js', content: '' },
+        { name: '.meteor/release', content: '' },
+        { name: 'foo.js', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'should support type imports for typescript projects',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.ts" }' },
+        {
+          name: 'index.ts',
+          content: `import foo from './foo'; import type { Bar } from './bar'`,
+        },
+        { name: 'foo.ts', content: '' },
+        { name: 'bar.ts', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'should report parse failure for invalid file',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `not valid` },
+      ],
+      exitCode: 1,
+      stderr: /Failed parsing.*\/index.js/s,
+    },
+    {
+      name: 'should ignore non import/require paths',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import fs from 'fs'; const dependency = fs.readFileSync('some_path.js');`,
+        },
+      ],
+      exitCode: 0,
+      stdout: '',
+    },
+    {
+      name: 'should not report unimported file which is in ignore file',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import foo from './foo';` },
+        {
+          name: '.unimportedrc.json',
+          content: '{"ignoreUnimported": ["bar.js"]}',
+        },
+        { name: 'foo.js', content: '' },
+        { name: 'bar.js', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'should not report unused dependency which is in ignore file',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+        },
+        { name: 'index.js', content: `import foo from './foo';` },
+        {
+          name: '.unimportedrc.json',
+          content: '{"ignoreUnused": ["@test/dependency"]}',
+        },
+        { name: 'foo.js', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'should not report unresolved import which is in ignore file',
+      files: [
+        {
+          name: 'package.json',
+          content: '{ "main": "index.js"  }',
+        },
+        { name: 'index.js', content: `import foo from './foo';` },
+        {
+          name: '.unimportedrc.json',
+          content: '{"ignoreUnresolved": ["./foo"]}',
+        },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'should not report entry file as missing',
+      files: [
+        {
+          name: 'package.json',
+          content: '{ "main": "index.js"  }',
+        },
+      ],
+      exitCode: 1,
+      stdout: '',
+    },
+    {
+      name: 'can work with glob patterns in config file',
+      files: [
+        { name: 'package.json', content: '{}' },
+        {
+          name: '.unimportedrc.json',
+          content: `{
+            "entry": ["src/index.tsx", "src/**/*.test.{j,t}s"],
+            "ignoreUnresolved": [],
+            "ignoreUnimported": ["src/setup{Proxy,Tests}.js"],
+            "ignoreUnused": [],
+            "ignorePatterns": ["**/node_modules/**", "**/*.d.ts"]
+          }`,
+        },
+        { name: 'src/index.tsx', content: `import './imported';` },
+        { name: 'src/imported.ts', content: 'export default null;' },
+        {
+          name: 'src/__tests__/imported.test.js',
+          content: `import proxy from '../setupProxy'`,
+        },
+        { name: 'src/setupProxy.js', content: '' },
+        { name: 'src/setupTests.js', content: '' },
+        { name: 'node_module/module/lib.js', content: '' },
+        { name: 'src/global.d.ts', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'supports alias overrides per entry point',
+      files: [
+        { name: 'package.json', content: '{}' },
+        {
+          name: '.unimportedrc.json',
+          content: `{
+          "entry": [{
+              "file": "src/entry-client.js",
+              "extend": { "aliases": { "create-api": ["./src/api/create-api-client"] } }
+            }, {
+              "file": "src/entry-server.js",
+              "extend": { "aliases": { "create-api": ["./src/api/create-api-server"] } }
+            }],
+          "extensions": [".js"],
+          "aliases": { "create-api": ["./src/api/create-api-server"] }
+        }`,
+        },
+        { name: 'src/entry-client.js', content: `import 'create-api';` },
+        { name: 'src/entry-server.js', content: `import 'create-api';` },
+        { name: 'src/api/create-api-client.js', content: `` },
+        { name: 'src/api/create-api-server.js', content: `` },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'supports extension overrides per entry point',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "dependencies": { "@test/client": "1", "@test/server": "1" } }',
+        },
+        {
+          name: '.unimportedrc.json',
+          content: `{
+          "entry": [{
+              "file": "src/entry.js",
+              "label": "client",
+              "extend": { "extensions": [".client.js"] }
+            }, {
+              "file": "src/entry.js",
+              "label": "server",
+              "extend": { "extensions": [".server.js"] }
+            }],
+          "extensions": [".js"]
+        }`,
+        },
+        { name: 'src/entry.js', content: `import './config';` },
+        {
+          name: 'src/config.client.js',
+          content: `
+            import '@test/client';
+            import './client-only'; 
+            import './shared';
+          `,
+        },
+        {
+          name: 'src/config.server.js',
+          content: `
+            import '@test/server';
+            import './server-only'; 
+            import './shared';
+          `,
+        },
+        { name: 'src/shared.js', content: '' },
+        { name: 'src/client-only.js', content: '' },
+        { name: 'src/server-only.js', content: '' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./s,
+    },
+  ],
+);
+
+// ----------------------------------------------------------------------------
+
+cases(
+  'cli integration tests with update option',
+  async (scenario) => {
+    const testProjectDir = await createProject(scenario.files);
+    const outputFile = path.join(testProjectDir, '.unimportedrc.json');
+
+    try {
+      const { exitCode } = await exec(testProjectDir, { update: true });
+
+      const outputFileContent = JSON.parse(await readFile(outputFile, 'utf-8'));
+      expect(scenario.output).toEqual(outputFileContent);
+      expect(exitCode).toBe(scenario.exitCode);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  },
+  [
+    {
+      name: 'should identify unimported file',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import foo from './foo';` },
+        { name: 'foo.js', content: '' },
+        { name: 'bar.js', content: '' },
+      ],
+      exitCode: 0,
+      output: {
+        ignoreUnresolved: [],
+        ignoreUnimported: ['bar.js'],
+        ignoreUnused: [],
+        ignoreMissing: [],
+      },
+    },
+    {
+      name: 'should identify unused dependencies',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+        },
+        { name: 'index.js', content: `import foo from './foo';` },
+        { name: 'foo.js', content: '' },
+      ],
+      exitCode: 0,
+      output: {
+        ignoreUnresolved: [],
+        ignoreUnimported: [],
+        ignoreUnused: ['@test/dependency'],
+        ignoreMissing: [],
+      },
+    },
+    {
+      name: 'should not ignore anything when everything is used',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "main": "index.js", "dependencies": { "@test/dependency": "1.0.0" } }',
+        },
+        {
+          name: 'index.js',
+          content: `
+import foo from './foo';
+import bar from './bar';
+`,
+        },
+        { name: 'foo.js', content: '' },
+        { name: 'bar.js', content: 'import test from "@test/dependency"' },
+      ],
+      exitCode: 0,
+      output: {
+        ignoreUnresolved: [],
+        ignoreUnimported: [],
+        ignoreUnused: [],
+        ignoreMissing: [],
+      },
+    },
+    {
+      name: 'should identify missing dependencies',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import lodash from 'lodash';` },
+        { name: 'node_modules/lodash/index.js', content: '' },
+      ],
+      exitCode: 0,
+      output: {
+        ignoreUnresolved: [],
+        ignoreUnimported: [],
+        ignoreUnused: [],
+        ignoreMissing: ['lodash'],
+      },
+    },
+    {
+      name: 'should prune stale ignore entries',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "main": "index.js", "dependencies": { "lodash": "*", "react": "*" } }',
+        },
+        {
+          name: '.unimportedrc.json',
+          content: JSON.stringify({
+            ignoreUnresolved: ['./gone', './x'],
+            ignoreUnimported: ['deleted.js', 'foo.js', 'bar.js'],
+            ignoreUnused: ['lodash', 'moment', 'react'],
+          }),
+        },
+        {
+          name: 'index.js',
+          content: `import foo from './foo'; import x from './x'; import _ from 'lodash';`,
+        },
+        { name: 'foo.js', content: '' },
+        { name: 'bar.js', content: '' },
+        { name: 'node_modules/lodash/index.js', content: '' },
+      ],
+      exitCode: 0,
+      output: {
+        ignoreUnresolved: ['./x'],
+        ignoreUnimported: ['bar.js'],
+        ignoreUnused: ['react'],
+        ignoreMissing: [],
+      },
+    },
+    {
+      name: 'should keep glob entries and prune stale globs',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: '.unimportedrc.json',
+          content: JSON.stringify({
+            ignoreUnimported: ['lib/*.js', 'legacy/*.js'],
+          }),
+        },
+        {
+          name: 'index.js',
+          content: `import a from './lib/a'; import c from './lib/c';`,
+        },
+        { name: 'lib/a.js', content: '' },
+        { name: 'lib/c.js', content: '' },
+        { name: 'legacy/old.js', content: '' },
+        { name: 'dead.js', content: '' },
+      ],
+      exitCode: 0,
+      output: {
+        ignoreUnresolved: [],
+        ignoreUnimported: ['dead.js', 'legacy/*.js'],
+        ignoreUnused: [],
+        ignoreMissing: [],
+      },
+    },
+  ],
+);
+
+// ----------------------------------------------------------------------------
+
+cases(
+  'cli integration tests with init option',
+  async (scenario) => {
+    const testProjectDir = await createProject(scenario.files);
+    const outputFile = path.join(testProjectDir, '.unimportedrc.json');
+
+    try {
+      const { exitCode } = await exec(testProjectDir, { init: true });
+
+      const outputFileContent = JSON.parse(await readFile(outputFile, 'utf-8'));
+      expect(scenario.output).toEqual(outputFileContent);
+      expect(exitCode).toBe(scenario.exitCode);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  },
+  [
+    {
+      name: 'should create default ignore file',
+      files: [
+        { name: 'package.json', content: '{}' },
+        { name: 'index.js', content: '' },
+      ],
+      exitCode: 0,
+      output: {
+        ignorePatterns: [
+          '**/node_modules/**',
+          '**/*.stories.{js,jsx,ts,tsx}',
+          '**/*.tests.{js,jsx,ts,tsx}',
+          '**/*.test.{js,jsx,ts,tsx}',
+          '**/*.spec.{js,jsx,ts,tsx}',
+          '**/tests/**',
+          '**/__tests__/**',
+          '**/*.d.ts',
+        ],
+        ignoreUnresolved: [],
+        ignoreUnimported: [],
+        ignoreUnused: [],
+        ignoreMissing: [],
+      },
+    },
+    {
+      name: 'should create expected ignore file for meteor project',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "meteor": { "mainModule": { "client": "", "server": "" } } }',
+        },
+        {
+          name: '.meteor',
+          content: '',
+        },
+      ],
+      exitCode: 0,
+      output: {
+        ignorePatterns: [
+          '**/node_modules/**',
+          '**/*.stories.{js,jsx,ts,tsx}',
           '**/*.tests.{js,jsx,ts,tsx}',
           '**/*.test.{js,jsx,ts,tsx}',
           '**/*.spec.{js,jsx,ts,tsx}',
@@ -865,46 +1675,1233 @@ cases(
         ignoreUnresolved: [],
         ignoreUnimported: [],
         ignoreUnused: [],
+        ignoreMissing: [],
+      },
+    },
+  ],
+);
+
+cases(
+  'cli integration tests with clear-cache option',
+  async (scenario) => {
+    const testProjectDir = await createProject(scenario.files);
+    const cachePath = path.resolve(
+      testProjectDir,
+      './node_modules/.cache/unimported',
+    );
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        clearCache: true,
+      });
+
+      const cacheExists = existsSync(cachePath);
+      expect(exitCode).toBe(scenario.exitCode);
+      expect(stdout).toBe(scenario.stdout);
+      expect(cacheExists).toBe(false);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  },
+  [
+    {
+      name: 'should remove cache and exit silently',
+      files: [
+        { name: 'package.json', content: '{}' },
+        { name: 'index.js', content: '' },
+        { name: 'node_modules/.cache/unimported/cache-1', content: '' },
+      ],
+      exitCode: 0,
+      stdout: '',
+    },
+  ],
+);
+
+cases(
+  'cli integration tests with unused-exports option',
+  async (scenario) => {
+    const testProjectDir = await createProject(scenario.files);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        unusedExports: true,
+      });
+
+      expect(stdout).toMatch(scenario.stdout);
+      expect(exitCode).toBe(scenario.exitCode);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  },
+  [
+    {
+      name: 'should report exports that are not imported',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import def, { a } from './lib'; export const main = 1;`,
+        },
+        {
+          name: 'lib.js',
+          content: [
+            'export const a = 1;',
+            'export const b = 2;',
+            'export function c() {}',
+            'export default 4;',
+          ].join('\n'),
+        },
+      ],
+      exitCode: 1,
+      stdout:
+        /2 unused exports.*b exported from lib.js:2:1.*c exported from lib.js:3:1/s,
+    },
+    {
+      name: 'should treat namespace imports and require calls as full usage',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import * as a from './a'; const b = require('./b');`,
+        },
+        { name: 'a.js', content: 'export const a1 = 1; export const a2 = 2;' },
+        { name: 'b.js', content: 'export const b1 = 1;' },
+      ],
+      exitCode: 0,
+      stdout: /There don't seem to be any unimported files./,
+    },
+    {
+      name: 'should follow re-exports of barrel files',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import { a, c } from './barrel';` },
+        {
+          name: 'barrel.js',
+          content: `export * from './a'; export { c } from './c';`,
+        },
+        { name: 'a.js', content: 'export const a = 1; export const b = 2;' },
+        { name: 'c.js', content: 'export const c = 1; export const d = 1;' },
+      ],
+      exitCode: 1,
+      stdout:
+        /2 unused exports.*b exported from a.js:1:21.*d exported from c.js:1:21/s,
+    },
+  ],
+);
+
+cases(
+  'cli integration tests with check-dev-dependencies option',
+  async (scenario) => {
+    const testProjectDir = await createProject(scenario.files);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        checkDevDependencies: true,
+      });
+
+      expect(stdout).toMatch(scenario.stdout);
+      expect(exitCode).toBe(scenario.exitCode);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  },
+  [
+    {
+      name: 'should report misplaced and unused devDependencies',
+      files: [
+        {
+          name: 'package.json',
+          content: JSON.stringify({
+            main: 'index.js',
+            dependencies: { '@test/prod': '1', '@test/test-only': '1' },
+            devDependencies: {
+              '@test/test-helper': '1',
+              '@test/misplaced': '1',
+              '@test/unused-dev': '1',
+            },
+          }),
+        },
+        {
+          name: 'index.js',
+          content: `import '@test/prod'; import '@test/misplaced';`,
+        },
+        {
+          name: 'index.test.js',
+          content: `import './index'; import '@test/test-only'; import '@test/test-helper';`,
+        },
+        {
+          name: 'jest.config.js',
+          content: `require('@test/unused-dev/preset');`,
+        },
+      ],
+      exitCode: 1,
+      stdout: new RegExp(
+        [
+          'unused dependencies\\s+: 0',
+          'unused devDependencies\\s+: 0',
+          'devDependencies in production\\s+: 1',
+          'dependencies only used in dev\\s+: 1',
+          '1 devDependencies used in production.*@test/misplaced',
+          '1 dependencies only used in development.*@test/test-only',
+        ].join('.*'),
+        's',
+      ),
+    },
+    {
+      name: 'should report unused devDependencies',
+      files: [
+        {
+          name: 'package.json',
+          content: JSON.stringify({
+            main: 'index.js',
+            devDependencies: { '@test/used': '1', '@test/unused': '1' },
+          }),
+        },
+        { name: 'index.js', content: '' },
+        { name: 'src/__tests__/index.js', content: `import '@test/used';` },
+      ],
+      exitCode: 1,
+      stdout: /1 unused devDependencies.*@test\/unused/s,
+    },
+    {
+      name: 'should treat the types of used packages as used',
+      files: [
+        {
+          name: 'package.json',
+          content: JSON.stringify({
+            main: 'index.js',
+            dependencies: { react: '1', '@babel/core': '1' },
+            devDependencies: {
+              '@types/react': '1',
+              '@types/babel__core': '1',
+              '@types/lodash': '1',
+            },
+          }),
+        },
+        {
+          name: 'index.js',
+          content: `import React from 'react'; import babel from '@babel/core';`,
+        },
+      ],
+      exitCode: 1,
+      stdout: /1 unused devDependencies.*@types\/lodash/s,
+    },
+    {
+      name: 'should treat packages that are run by scripts as used',
+      files: [
+        {
+          name: 'package.json',
+          content: JSON.stringify({
+            main: 'index.js',
+            scripts: {
+              build: 'tsc -p . && node_modules/.bin/eslint src',
+              test: 'cross-env CI=1 jest --coverage',
+            },
+            devDependencies: {
+              typescript: '1',
+              eslint: '1',
+              jest: '1',
+              'cross-env': '1',
+              prettier: '1',
+            },
+          }),
+        },
+        { name: 'index.js', content: '' },
+        {
+          name: 'node_modules/typescript/package.json',
+          content: JSON.stringify({
+            name: 'typescript',
+            bin: { tsc: './bin/tsc', tsserver: './bin/tsserver' },
+          }),
+        },
+        {
+          name: 'node_modules/jest/package.json',
+          content: JSON.stringify({ name: 'jest', bin: './bin/jest.js' }),
+        },
+      ],
+      exitCode: 1,
+      stdout: /1 unused devDependencies.*prettier/s,
+    },
+  ],
+);
+
+cases(
+  'cli integration tests with report-builtins option',
+  async (scenario) => {
+    const testProjectDir = await createProject(scenario.files);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        reportBuiltins: true,
+      });
+
+      expect(stdout).toMatch(scenario.stdout);
+      expect(exitCode).toBe(scenario.exitCode);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  },
+  [
+    {
+      name: 'should list the node built-ins per file',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import fs from 'fs';\nimport './browser';\nimport './server';`,
+        },
+        { name: 'browser.js', content: '' },
+        {
+          name: 'server.js',
+          content: `import path from 'node:path';\nimport { readFile } from 'fs/promises';`,
+        },
+      ],
+      exitCode: 0,
+      stdout:
+        /2 files importing node built-ins.*index.js imports fs.*server.js imports node:path, fs\/promises.*There don't seem to be any unimported files./s,
+    },
+    {
+      name: 'should report unknown node: imports as unresolved',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        {
+          name: 'index.js',
+          content: `import fs from 'node:fss';\nimport test from 'node:test';`,
+        },
+      ],
+      exitCode: 1,
+      stdout:
+        /1 unresolved imports.*node:fss imported from index.js:1:1.*1 files importing node built-ins.*index.js imports node:test/s,
+    },
+  ],
+);
+
+describe('fix', () => {
+  const files = [
+    { name: 'package.json', content: '{ "main": "index.js" }' },
+    { name: 'index.js', content: `import foo from './foo';` },
+    { name: 'foo.js', content: '' },
+    { name: 'bar.js', content: `import baz from './baz';` },
+    { name: 'baz.js', content: '' },
+    { name: 'ignored.js', content: '' },
+    {
+      name: '.unimportedrc.json',
+      content: '{ "ignoreUnimported": ["ignored.js"] }',
+    },
+  ];
+
+  it('should remove unimported files', async () => {
+    const testProjectDir = await createProject(files);
+
+    try {
+      const { stdout, exitCode } = await exec(testProjectDir, { fix: true });
+
+      expect(stdout).toMatch(/2 unimported files removed.*bar.js.*baz.js/s);
+      expect(stdout).toMatch(/There don't seem to be any unimported files./);
+      expect(exitCode).toBe(0);
+
+      expect(existsSync(path.join(testProjectDir, 'bar.js'))).toBe(false);
+      expect(existsSync(path.join(testProjectDir, 'baz.js'))).toBe(false);
+      expect(existsSync(path.join(testProjectDir, 'foo.js'))).toBe(true);
+      expect(existsSync(path.join(testProjectDir, 'ignored.js'))).toBe(true);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should not remove files in dry-run mode', async () => {
+    const testProjectDir = await createProject(files);
+
+    try {
+      const { stdout, exitCode } = await exec(testProjectDir, {
+        fix: true,
+        dryRun: true,
+      });
+
+      expect(stdout).toMatch(/2 unimported files would be removed/s);
+      expect(exitCode).toBe(1);
+      expect(existsSync(path.join(testProjectDir, 'bar.js'))).toBe(true);
+      expect(existsSync(path.join(testProjectDir, 'baz.js'))).toBe(true);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should refuse to remove files outside of the project', async () => {
+    const testProjectDir = await createProject([
+      { name: 'project/package.json', content: '{ "main": "index.js" }' },
+      { name: 'project/index.js', content: '' },
+      { name: 'outside/bar.js', content: '' },
+    ]);
+
+    try {
+      fs.symlinkSync(
+        path.resolve(testProjectDir, 'outside'),
+        path.resolve(testProjectDir, 'project/linked'),
+      );
+
+      const { stdout } = await exec(path.join(testProjectDir, 'project'), {
+        fix: true,
+      });
+
+      expect(stdout).toMatch(/refusing to remove \.\.\/outside\/bar.js/);
+      expect(existsSync(path.join(testProjectDir, 'outside/bar.js'))).toBe(
+        true,
+      );
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
+
+describe('fix-deps', () => {
+  const packageJson = [
+    '{',
+    '\t"main": "index.js",',
+    '\t"dependencies": {',
+    '\t\t"@test/used": "1.0.0",',
+    '\t\t"@test/unused": "1.0.0",',
+    '\t\t"@test/ignored": "1.0.0"',
+    '\t},',
+    '\t"license": "MIT"',
+    '}',
+    '',
+  ].join('\n');
+
+  const files = [
+    { name: 'package.json', content: packageJson },
+    { name: 'index.js', content: `import '@test/used';` },
+    {
+      name: '.unimportedrc.json',
+      content: '{ "ignoreUnused": ["@test/ignored"] }',
+    },
+  ];
+
+  it('should remove unused dependencies and preserve formatting', async () => {
+    const testProjectDir = await createProject(files);
+
+    try {
+      const { stdout, exitCode } = await exec(testProjectDir, {
+        fixDeps: true,
+      });
+
+      expect(stdout).toMatch(
+        /1 unused dependencies removed from package.json.*@test\/unused/s,
+      );
+      expect(exitCode).toBe(0);
+
+      const output = await readFile(
+        path.join(testProjectDir, 'package.json'),
+        'utf-8',
+      );
+
+      expect(output).toEqual(
+        [
+          '{',
+          '\t"main": "index.js",',
+          '\t"dependencies": {',
+          '\t\t"@test/used": "1.0.0",',
+          '\t\t"@test/ignored": "1.0.0"',
+          '\t},',
+          '\t"license": "MIT"',
+          '}',
+          '',
+        ].join('\n'),
+      );
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should only remove the lines of the unused dependencies', async () => {
+    const content = [
+      '{',
+      '  "main": "index.js",',
+      '  "files": ["dist", "bin"],',
+      '  "scripts": { "test": "jest" },',
+      '  "dependencies": {',
+      '    "@test/used": "1.0.0",',
+      '    "@test/unused": "1.0.0"',
+      '  },',
+      '  "devDependencies": { "@test/unused": "1.0.0" }',
+      '}',
+    ].join('\n');
+
+    const testProjectDir = await createProject([
+      { name: 'package.json', content },
+      { name: 'index.js', content: `import '@test/used';` },
+    ]);
+
+    try {
+      let { exitCode } = await exec(testProjectDir, { fixDeps: true });
+      expect(exitCode).toBe(0);
+
+      const output = await readFile(
+        path.join(testProjectDir, 'package.json'),
+        'utf-8',
+      );
+
+      expect(output).toEqual(
+        [
+          '{',
+          '  "main": "index.js",',
+          '  "files": ["dist", "bin"],',
+          '  "scripts": { "test": "jest" },',
+          '  "dependencies": {',
+          '    "@test/used": "1.0.0"',
+          '  },',
+          '  "devDependencies": { "@test/unused": "1.0.0" }',
+          '}',
+        ].join('\n'),
+      );
+
+      // nothing left to remove, the file is not rewritten
+      ({ exitCode } = await exec(testProjectDir, { fixDeps: true }));
+      expect(exitCode).toBe(0);
+      expect(
+        await readFile(path.join(testProjectDir, 'package.json'), 'utf-8'),
+      ).toEqual(output);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should print a diff in dry-run mode', async () => {
+    const testProjectDir = await createProject(files);
+
+    try {
+      const { stdout, exitCode } = await exec(testProjectDir, {
+        fixDeps: true,
+        dryRun: true,
+      });
+
+      expect(stdout).toMatch(/package.json\n- \t\t"@test\/unused": "1.0.0",\n/);
+      expect(exitCode).toBe(1);
+
+      const output = await readFile(
+        path.join(testProjectDir, 'package.json'),
+        'utf-8',
+      );
+      expect(output).toEqual(packageJson);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should print removed lines before added lines in dry-run mode', async () => {
+    const testProjectDir = await createProject([
+      {
+        name: 'package.json',
+        content: [
+          '{',
+          '  "main": "index.js",',
+          '  "dependencies": {',
+          '    "@test/used": "1.0.0",',
+          '    "@test/unused": "1.0.0"',
+          '  }',
+          '}',
+        ].join('\n'),
+      },
+      { name: 'index.js', content: `import '@test/used';` },
+    ]);
+
+    try {
+      const { stdout } = await exec(testProjectDir, {
+        fixDeps: true,
+        dryRun: true,
+      });
+
+      expect(stdout).toMatch(
+        [
+          '-     "@test/used": "1.0.0",',
+          '-     "@test/unused": "1.0.0"',
+          '+     "@test/used": "1.0.0"',
+        ].join('\n'),
+      );
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
+
+cases(
+  'cli integration tests with why command',
+  async (scenario) => {
+    const testProjectDir = await createProject(scenario.files);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        why: scenario.why,
+      });
+
+      expect(stdout).toMatch(scenario.stdout);
+      expect(exitCode).toBe(scenario.exitCode);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  },
+  [
+    {
+      name: 'should print the shortest chain to a file',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import './a'; import './b';` },
+        { name: 'a.js', content: `import './c';` },
+        { name: 'b.js', content: `import './c';` },
+        { name: 'c.js', content: `import './d';` },
+        { name: 'd.js', content: '' },
+      ],
+      why: 'd.js',
+      exitCode: 0,
+      stdout:
+        /d.js is imported through 1 entry files.*index.js → a.js → c.js → d.js/s,
+    },
+    {
+      name: 'should resolve files without extension',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: `import './lib';` },
+        { name: 'lib/index.js', content: '' },
+      ],
+      why: 'lib',
+      exitCode: 0,
+      stdout: /index.js → lib\/index.js/s,
+    },
+    {
+      name: 'should print the chain to a dependency',
+      files: [
+        {
+          name: 'package.json',
+          content:
+            '{ "main": "index.js", "dependencies": { "@test/dep": "1" } }',
+        },
+        { name: 'index.js', content: `import './a';` },
+        { name: 'a.js', content: `import '@test/dep';` },
+      ],
+      why: '@test/dep',
+      exitCode: 0,
+      stdout: /index.js → a.js → @test\/dep/s,
+    },
+    {
+      name: 'should report files that are not imported',
+      files: [
+        { name: 'package.json', content: '{ "main": "index.js" }' },
+        { name: 'index.js', content: '' },
+        { name: 'dead.js', content: '' },
+      ],
+      why: 'dead.js',
+      exitCode: 1,
+      stdout: /dead.js is not imported by any of the entry files/s,
+    },
+  ],
+);
+
+describe('tool aliases', () => {
+  it('should warn about aliases that are computed dynamically', async () => {
+    const testProjectDir = await createProject([
+      { name: 'package.json', content: '{ "main": "src/index.js" }' },
+      { name: 'src/index.js', content: '' },
+      {
+        name: 'webpack.config.js',
+        content: `
+const aliases = require('./aliases');
+module.exports = { resolve: { alias: aliases } };
+`,
+      },
+    ]);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir);
+
+      expect(stdout).toMatch(
+        /unable to read the aliases from webpack.config.js/,
+      );
+      expect(exitCode).toBe(0);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should read the aliases that can be read, and warn about the others', async () => {
+    const testProjectDir = await createProject([
+      { name: 'package.json', content: '{ "main": "src/index.js" }' },
+      {
+        name: 'src/index.js',
+        content: `import a from '@/a';\nimport b from '@app/b';`,
+      },
+      { name: 'src/a.js', content: '' },
+      { name: 'src/app/b.js', content: '' },
+      {
+        name: 'vite.config.js',
+        content: `
+export default {
+  resolve: {
+    alias: [
+      { find: '@', replacement: path.resolve(__dirname, 'src') },
+      { find: /^~(.*)$/, replacement: '$1' },
+    ],
+  },
+};
+`,
+      },
+      {
+        name: 'jest.config.js',
+        content: `
+module.exports = {
+  moduleNameMapper: {
+    '^@app/(.*)$': ['<rootDir>/src/app/$1'],
+    '^lib/(.+)$': '<rootDir>/lib/$1',
+  },
+};
+`,
+      },
+    ]);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir);
+
+      expect(stdout).toMatch(/unable to read the aliases from vite.config.js/);
+      expect(stdout).toMatch(
+        /unable to read alias \^lib\/\(\.\+\)\$ from jest.config.js/,
+      );
+      expect(stdout).toMatch(/There don't seem to be any unimported files./);
+      expect(exitCode).toBe(0);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
+
+describe('workspaces', () => {
+  const workspace = [
+    {
+      name: 'package.json',
+      content: '{ "private": true, "workspaces": ["packages/*"] }',
+    },
+    {
+      name: 'packages/a/package.json',
+      content:
+        '{ "name": "a", "main": "src/index.js", "dependencies": { "b": "*", "lodash": "*" } }',
+    },
+    {
+      name: 'packages/a/src/index.js',
+      content: `import b from 'b';\nimport { format } from 'b/src/format';`,
+    },
+    { name: 'packages/a/src/dead.js', content: '' },
+    {
+      name: 'packages/b/package.json',
+      content: '{ "name": "b", "main": "src/index.js" }',
+    },
+    { name: 'packages/b/src/index.js', content: `import './helper';` },
+    { name: 'packages/b/src/helper.js', content: '' },
+    {
+      name: 'packages/b/src/format.js',
+      content: `import { trim } from './trim';\nexport const format = trim;`,
+    },
+    { name: 'packages/b/src/trim.js', content: 'export const trim = 1;' },
+  ];
+
+  it('should report per package, and resolve imports of other packages to source', async () => {
+    const testProjectDir = await createProject(workspace);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        workspaces: true,
+      });
+
+      expect(stdout).toMatch(/a packages\/a/);
+      expect(stdout).toMatch(/b packages\/b/);
+      expect(stdout).toMatch(/1 unused dependencies.*lodash/s);
+      expect(stdout).toMatch(/1 unimported files.*src\/dead.js/s);
+      expect(stdout).not.toMatch(/format.js|trim.js/);
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should only report on the selected workspace', async () => {
+    const testProjectDir = await createProject(workspace);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        workspace: 'b',
+      });
+
+      expect(stdout).not.toMatch(/a packages\/a/);
+      expect(stdout).toMatch(/b packages\/b/);
+      expect(stdout).toMatch(/There don't seem to be any unimported files./);
+      expect(exitCode).toBe(0);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should only report the builtins and widened imports of the package itself', async () => {
+    const testProjectDir = await createProject([
+      ...workspace.filter((x) => x.name !== 'packages/b/src/format.js'),
+      {
+        name: 'packages/b/src/format.js',
+        content: `import fs from 'fs';\nimport { trim } from './trim';\nexport const format = trim;\nimport(\`./locales/\${lang}.js\`);`,
+      },
+      { name: 'packages/b/src/locales/en.js', content: '' },
+    ]);
+
+    try {
+      const { stdout } = await exec(testProjectDir, {
+        workspaces: true,
+        reportBuiltins: true,
+        format: 'json',
+      });
+
+      const [a, b] = JSON.parse(stdout).workspaces;
+
+      expect(a.report.builtins).toEqual([]);
+      expect(a.report.widened).toBeUndefined();
+      expect(b.report.builtins).toEqual([
+        {
+          file: 'src/format.js',
+          imports: [{ path: 'fs', line: 1, column: 1 }],
+        },
+      ]);
+      expect(b.report.widened).toEqual([
+        {
+          file: 'src/format.js',
+          line: 4,
+          column: 1,
+          pattern: './locales/*.js',
+        },
+      ]);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should ignore untracked files in every package', async () => {
+    const testProjectDir = await createProject(workspace);
+    const status = jest.fn(async () => ({
+      not_added: ['packages/a/src/dead.js'],
+    }));
+    (simpleGit as jest.Mock).mockImplementationOnce(() => ({ status }));
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        workspace: 'a',
+        ignoreUntracked: true,
+      });
+
+      expect(status).toHaveBeenCalledTimes(1);
+      expect(stdout).toMatch(/1 unused dependencies.*lodash/s);
+      expect(stdout).toMatch(/unimported files\s+: 0/);
+      expect(stdout).not.toMatch(/dead.js/);
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should fail on unknown workspaces', async () => {
+    const testProjectDir = await createProject(workspace);
+
+    try {
+      const { exitCode, stderr } = await exec(testProjectDir, {
+        workspace: 'c',
+      });
+
+      expect(stderr).toMatch(/could not find workspace c/);
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should fail when there are no workspaces', async () => {
+    const testProjectDir = await createProject([
+      {
+        name: 'package.json',
+        content: '{ "workspaces": { "packages": ["packages/*"] } }',
+      },
+    ]);
+
+    try {
+      const { exitCode, stderr } = await exec(testProjectDir, {
+        workspaces: true,
+      });
+
+      expect(stderr).toMatch(/could not find any workspaces/);
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should read the packages from pnpm-workspace.yaml, and group the json report', async () => {
+    const testProjectDir = await createProject([
+      { name: 'package.json', content: '{ "private": true }' },
+      {
+        name: 'pnpm-workspace.yaml',
+        content: `packages:\n  - 'apps/*'\n  - '!apps/ignored'\n`,
       },
+      {
+        name: 'apps/web/package.json',
+        content: '{ "name": "web", "main": "index.js" }',
+      },
+      { name: 'apps/web/index.js', content: '' },
+      {
+        name: 'apps/ignored/package.json',
+        content: '{ "name": "ignored", "main": "index.js" }',
+      },
+      { name: 'apps/ignored/index.js', content: '' },
+    ]);
+
+    try {
+      const { exitCode, stdout } = await exec(testProjectDir, {
+        workspaces: true,
+        format: 'json',
+      });
+
+      const report = JSON.parse(stdout);
+      expect(report.workspaces).toEqual([
+        expect.objectContaining({ name: 'web', path: 'apps/web' }),
+      ]);
+      expect(report.workspaces[0].report.clean).toBe(true);
+      expect(report.clean).toBe(true);
+      expect(exitCode).toBe(0);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
+
+describe('changed-since', () => {
+  const files = [
+    {
+      name: 'package.json',
+      content: JSON.stringify({
+        main: 'index.js',
+        dependencies: { lodash: '*', moment: '*', react: '*', 'left-pad': '*' },
+      }),
     },
-  ],
-);
+    {
+      name: 'index.js',
+      content: `import a from './a'; import x from './x'; import chalk from 'chalk';`,
+    },
+    { name: 'a.js', content: '' },
+    { name: 'b.js', content: `import d from './d';` },
+    {
+      name: 'c.js',
+      content: `import y from './y'; import chalk from 'chalk';`,
+    },
+    { name: 'd.js', content: '' },
+    { name: 'e.js', content: '' },
+    { name: 'node_modules/lodash/index.js', content: '' },
+    { name: 'node_modules/react/index.js', content: '' },
+    { name: 'node_modules/chalk/index.js', content: '' },
+  ];
 
-cases(
-  'cli integration tests with clear-cache option',
-  async (scenario) => {
-    const testProjectDir = await createProject(scenario.files);
-    const cachePath = path.resolve(
-      testProjectDir,
-      './node_modules/.cache/unimported',
-    );
+  function mockGit(raw: jest.Mock) {
+    (simpleGit as jest.Mock).mockImplementationOnce(() => ({ raw }));
+  }
+
+  it('should only report the findings that involve the changed files', async () => {
+    const testProjectDir = await createProject(files);
+    const previous = {
+      'abc123:./index.js': `import a from './a'; import b from './b'; import _ from 'lodash';`,
+      'abc123:./old.js': `import React from 'react';`,
+      'abc123:./package.json': JSON.stringify({
+        dependencies: { lodash: '*', react: '*', 'left-pad': '*' },
+      }),
+    };
+    const raw = jest.fn(async ([command, arg]: string[]) => {
+      switch (command) {
+        case 'merge-base':
+          return 'abc123\n';
+        case 'diff':
+          return 'M\tindex.js\nD\told.js\nM\tpackage.json\n';
+        case 'ls-files':
+          return 'e.js\n';
+        case 'show':
+          return previous[arg];
+      }
+    });
+    mockGit(raw);
 
     try {
       const { exitCode, stdout } = await exec(testProjectDir, {
-        clearCache: true,
+        changedSince: 'origin/main',
+        format: 'json',
       });
 
-      const cacheExists = existsSync(cachePath);
-      expect(exitCode).toBe(scenario.exitCode);
-      expect(stdout).toBe(scenario.stdout);
-      expect(cacheExists).toBe(false);
+      expect(JSON.parse(stdout)).toMatchObject({
+        changedSince: 'origin/main',
+        unimported: ['b.js', 'd.js', 'e.js'],
+        unused: ['lodash', 'moment', 'react'],
+        unresolved: ['./x'],
+        missing: [
+          {
+            name: 'chalk',
+            importers: [{ file: 'index.js', line: 1, column: 43 }],
+          },
+        ],
+        clean: false,
+      });
+      expect(raw).toHaveBeenCalledWith(['show', 'abc123:./index.js']);
+      expect(exitCode).toBe(1);
     } finally {
       await rmdir(testProjectDir, { recursive: true });
     }
-  },
-  [
+  });
+
+  it('should fail when the changes cannot be listed', async () => {
+    const testProjectDir = await createProject(files);
+    mockGit(
+      jest.fn(async () => {
+        throw new Error('Not a valid object name origin/nope');
+      }),
+    );
+
+    try {
+      const { exitCode, stderr } = await exec(testProjectDir, {
+        changedSince: 'origin/nope',
+      });
+
+      expect(stderr).toMatch(
+        /could not list the changes since origin\/nope: Not a valid object name/,
+      );
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should not combine --changed-since with --watch or workspace mode', async () => {
+    const testProjectDir = await createProject(files);
+
+    try {
+      let { exitCode, stderr } = await exec(testProjectDir, {
+        changedSince: 'origin/main',
+        watch: true,
+      });
+
+      expect(stderr).toMatch(/--changed-since are not supported with --watch/);
+      expect(exitCode).toBe(1);
+
+      ({ exitCode, stderr } = await exec(testProjectDir, {
+        changedSince: 'origin/main',
+        workspaces: true,
+      }));
+
+      expect(stderr).toMatch(
+        /--changed-since are not supported in workspace mode/,
+      );
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
+
+describe('watch', () => {
+  it('should not combine --watch with --fix', async () => {
+    const testProjectDir = await createProject([
+      { name: 'package.json', content: '{ "main": "index.js" }' },
+      { name: 'index.js', content: '' },
+    ]);
+
+    try {
+      const { exitCode, stderr } = await exec(testProjectDir, {
+        watch: true,
+        fix: true,
+      });
+
+      expect(stderr).toMatch(/--fix.*not supported with --watch/);
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should not combine --watch with a structured format', async () => {
+    const testProjectDir = await createProject([
+      { name: 'package.json', content: '{ "main": "index.js" }' },
+      { name: 'index.js', content: '' },
+    ]);
+
+    try {
+      for (const format of ['json', 'sarif'] as const) {
+        const { exitCode, stdout, stderr } = await exec(testProjectDir, {
+          watch: true,
+          format,
+        });
+
+        expect(stderr).toMatch(
+          `--format ${format} is not supported with --watch`,
+        );
+        expect(stdout).toBe('');
+        expect(exitCode).toBe(1);
+      }
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
+
+describe('baseline', () => {
+  const files = [
     {
-      name: 'should remove cache and exit silently',
-      files: [
-        { name: 'package.json', content: '{}' },
-        { name: 'index.js', content: '' },
-        { name: 'node_modules/.cache/unimported/cache-1', content: '' },
-      ],
-      exitCode: 0,
-      stdout: '',
+      name: 'package.json',
+      content: JSON.stringify({
+        main: 'index.js',
+        dependencies: { lodash: '*', moment: '*' },
+      }),
     },
-  ],
-);
+    { name: 'index.js', content: `import x from './x';` },
+    { name: 'a.js', content: '' },
+    { name: 'b.js', content: '' },
+    { name: 'node_modules/lodash/index.js', content: '' },
+    { name: 'node_modules/moment/index.js', content: '' },
+  ];
+
+  it('should only fail on findings that are not in the baseline', async () => {
+    const testProjectDir = await createProject(files);
+
+    try {
+      let { exitCode, stdout } = await exec(testProjectDir, {
+        writeBaseline: true,
+      });
+
+      expect(stdout).toMatch(/5 findings written to .unimported-baseline.json/);
+      expect(exitCode).toBe(0);
+      expect(
+        JSON.parse(
+          await readFile(
+            path.join(testProjectDir, '.unimported-baseline.json'),
+            'utf8',
+          ),
+        ),
+      ).toEqual({
+        unimported: ['a.js', 'b.js'],
+        unused: ['lodash', 'moment'],
+        unresolved: ['./x'],
+        missing: [],
+      });
+
+      ({ exitCode, stdout } = await exec(testProjectDir));
+
+      expect(stdout).toMatch(/There don't seem to be any unimported files./);
+      expect(exitCode).toBe(0);
+
+      await writeFile(path.join(testProjectDir, 'c.js'), '');
+      await writeFile(
+        path.join(testProjectDir, 'b.js'),
+        `import _ from 'lodash';`,
+      );
+      await writeFile(
+        path.join(testProjectDir, 'index.js'),
+        `import b from './b';`,
+      );
+
+      ({ exitCode, stdout } = await exec(testProjectDir, { format: 'json' }));
+
+      expect(JSON.parse(stdout)).toMatchObject({
+        unimported: ['c.js'],
+        unused: [],
+        unresolved: [],
+        fixedBaseline: [
+          { type: 'unimported', value: 'b.js' },
+          { type: 'unused', value: 'lodash' },
+          { type: 'unresolved', value: './x' },
+        ],
+        clean: false,
+      });
+      expect(exitCode).toBe(1);
+
+      ({ exitCode, stdout } = await exec(testProjectDir, { baseline: false }));
+
+      expect(stdout).toMatch(/2 unimported files.*a.js.*c.js/s);
+      expect(exitCode).toBe(1);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+
+  it('should not write the baseline of the changed files', async () => {
+    const testProjectDir = await createProject(files);
+
+    try {
+      const { exitCode, stderr } = await exec(testProjectDir, {
+        writeBaseline: true,
+        changedSince: 'origin/main',
+      });
+
+      expect(stderr).toMatch(
+        /--write-baseline is not supported with --changed-since/,
+      );
+      expect(exitCode).toBe(1);
+      expect(
+        existsSync(path.join(testProjectDir, '.unimported-baseline.json')),
+      ).toBe(false);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
+
+describe('stale ignores', () => {
+  it('should report ignore entries that no longer match anything', async () => {
+    const testProjectDir = await createProject([
+      {
+        name: 'package.json',
+        content: JSON.stringify({
+          main: 'index.js',
+          dependencies: { lodash: '*' },
+          devDependencies: { jest: '*' },
+        }),
+      },
+      {
+        name: '.unimportedrc.json',
+        content: JSON.stringify({
+          ignoreUnresolved: ['./gone'],
+          ignoreUnimported: ['deleted.js', 'legacy/**'],
+          ignoreUnused: ['lodash', 'jest', 'moment'],
+        }),
+      },
+      { name: 'index.js', content: `import _ from 'lodash';` },
+      { name: 'legacy/a.js', content: '' },
+      { name: 'index.test.js', content: `import { expect } from 'jest';` },
+      { name: 'node_modules/lodash/index.js', content: '' },
+      { name: 'node_modules/jest/index.js', content: '' },
+    ]);
+
+    try {
+      let { exitCode, stdout } = await exec(testProjectDir, {
+        format: 'json',
+      });
+
+      expect(JSON.parse(stdout)).toMatchObject({
+        staleIgnores: {
+          ignoreUnimported: ['deleted.js'],
+          ignoreUnused: ['lodash', 'moment'],
+          ignoreUnresolved: ['./gone'],
+        },
+        clean: true,
+      });
+      expect(exitCode).toBe(0);
+
+      // the usage of devDependencies is only known with --check-dev-dependencies
+      ({ exitCode, stdout } = await exec(testProjectDir, {
+        checkDevDependencies: true,
+      }));
+
+      expect(stdout).toMatch(
+        /5 stale ignore entries.*deleted.js in ignoreUnimported.*jest in ignoreUnused/s,
+      );
+      expect(exitCode).toBe(0);
+    } finally {
+      await rmdir(testProjectDir, { recursive: true });
+    }
+  });
+});
 
 describe('cache', () => {
   const files = [
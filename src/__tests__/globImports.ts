@@ -0,0 +1,85 @@
+import {
+  AST_NODE_TYPES,
+  parse,
+  TSESTree,
+} from '@typescript-eslint/typescript-estree';
+import { getDynamicPattern, getGlobImport } from '../globImports';
+
+function getCall(code: string): TSESTree.CallExpression {
+  const [statement] = parse(code).body;
+
+  if (
+    statement.type !== AST_NODE_TYPES.ExpressionStatement ||
+    statement.expression.type !== AST_NODE_TYPES.CallExpression
+  ) {
+    throw new Error(`${code} is not a call expression`);
+  }
+
+  return statement.expression;
+}
+
+it('should read the patterns and imported name of import.meta.glob', () => {
+  expect(getGlobImport(getCall(`import.meta.glob('./x/*.js')`))).toEqual({
+    type: 'glob',
+    patterns: ['./x/*.js'],
+    names: ['*'],
+  });
+
+  expect(
+    getGlobImport(
+      getCall(
+        `import.meta.glob([\`./x/*.js\`, '!**/y.js'], { import: 'setup', eager: true })`,
+      ),
+    ),
+  ).toEqual({
+    type: 'glob',
+    patterns: ['./x/*.js', '!**/y.js'],
+    names: ['setup'],
+  });
+
+  expect(
+    getGlobImport(getCall(`import.meta.globEager('./x/*.js')`)),
+  ).toMatchObject({ type: 'glob' });
+});
+
+it('should read the directory, recursive flag and filter of require.context', () => {
+  expect(getGlobImport(getCall(`require.context('./icons')`))).toEqual({
+    type: 'context',
+    directory: './icons',
+    recursive: true,
+    filter: { pattern: '^\\.\\/.*$', flags: '' },
+  });
+
+  expect(
+    getGlobImport(getCall(`require.context('./icons', false, /\\.svg$/i)`)),
+  ).toEqual({
+    type: 'context',
+    directory: './icons',
+    recursive: false,
+    filter: { pattern: '\\.svg$', flags: 'i' },
+  });
+});
+
+it('should ignore calls with dynamic arguments', () => {
+  expect(getGlobImport(getCall(`import.meta.glob(pattern)`))).toBe(null);
+  expect(getGlobImport(getCall(`import.meta.glob(['./x', y])`))).toBe(null);
+  expect(getGlobImport(getCall(`require.context(dir)`))).toBe(null);
+  expect(getGlobImport(getCall(`require.context('./x', deep)`))).toBe(null);
+  expect(getGlobImport(getCall(`require.context('./x', true, re)`))).toBe(null);
+  expect(getGlobImport(getCall(`require('./x')`))).toBe(null);
+  expect(getGlobImport(getCall(`foo.context('./x')`))).toBe(null);
+});
+
+it('should widen dynamic paths to globs', () => {
+  const getPattern = (code: string) =>
+    getDynamicPattern(getCall(`require(${code})`).arguments[0]);
+
+  expect(getPattern('`./locales/${lang}.json`')).toBe('./locales/*.json');
+  expect(getPattern('`../${a}${b}.js`')).toBe('../*.js');
+  expect(getPattern(`'./plugins/' + name`)).toBe('./plugins/*');
+  expect(getPattern(`'./' + dir + '/' + file + '.js'`)).toBe('./*/*.js');
+  expect(getPattern(`'./x.js'`)).toBe(null);
+  expect(getPattern('`${base}/x.js`')).toBe(null);
+  expect(getPattern(`name`)).toBe(null);
+  expect(getPattern(`'./x' - 1`)).toBe(null);
+});
@@ -25,25 +25,54 @@ test('npx unimported --help', async () => {
 
   expect(stderr).toBe('');
   expect(stdout.trim()).toMatchInlineSnapshot(`
-    "unimported [cwd]
+    "unimported <cmd> [args]
 
-    scan your project for dead files
+    Commands:
+      unimported [cwd]               scan your project for dead files      [default]
+      unimported why <target> [cwd]  explain why a file or dependency is imported
 
     Positionals:
       cwd  The root directory that unimported should run from.              [string]
 
     Options:
-          --version           Show version number                          [boolean]
-          --help              Show help                                    [boolean]
-          --cache             Whether to use the cache. Disable the cache using
-                              --no-cache.                  [boolean] [default: true]
-          --clear-cache       Clears the cache file and then exits.        [boolean]
-      -f, --flow              Whether to strip flow types, regardless of @flow
-                              pragma.                                      [boolean]
-          --ignore-untracked  Ignore files that are not currently tracked by git.
+          --version                 Show version number                    [boolean]
+          --help                    Show help                              [boolean]
+          --baseline                Only fail on findings that are not in
+                                    .unimported-baseline.json. Disable using
+                                    --no-baseline.         [boolean] [default: true]
+          --cache                   Whether to use the cache. Disable the cache
+                                    using --no-cache.      [boolean] [default: true]
+          --changed-since           Only report findings that involve the files
+                                    changed since this git ref.             [string]
+          --check-dev-dependencies  Also analyse devDependencies, and report
+                                    misplaced dependencies.                [boolean]
+          --clear-cache             Clears the cache file and then exits.  [boolean]
+          --dry-run                 Show what --fix and --fix-deps would change,
+                                    without changing anything.             [boolean]
+          --fix                     Remove unimported files.               [boolean]
+          --fix-deps                Remove unused dependencies from package.json.
                                                                            [boolean]
-      -i, --init              Dump default settings to .unimportedrc.json. [boolean]
-      -u, --update            Update the ignore-lists stored in .unimportedrc.json.
-                                                                           [boolean]"
+      -f, --flow                    Whether to strip flow types, regardless of @flow
+                                    pragma.                                [boolean]
+          --format                  The format in which the report is printed.
+                       [string] [choices: \\"text\\", \\"json\\", \\"sarif\\"] [default: \\"text\\"]
+          --ignore-untracked        Ignore files that are not currently tracked by
+                                    git.                                   [boolean]
+      -i, --init                    Dump default settings to .unimportedrc.json.
+                                                                           [boolean]
+          --report-builtins         List the Node built-in modules that are imported
+                                    per file.                              [boolean]
+          --unused-exports          Report exports that are not imported by any
+                                    file.                                  [boolean]
+      -u, --update                  Update the ignore-lists stored in
+                                    .unimportedrc.json.                    [boolean]
+          --watch                   Keep running, and report the changes in findings
+                                    when files change.                     [boolean]
+          --write-baseline          Write the current findings to
+                                    .unimported-baseline.json and exit.    [boolean]
+          --workspace               Only report on the workspace package with this
+                                    name or path.                           [string]
+          --workspaces              Analyse every package of the npm, yarn or pnpm
+                                    workspace.                             [boolean]"
   `);
 });
@@ -1,6 +1,6 @@
 import { createConsole, getLog, mockConsole } from 'console-testing-library';
 import { Context } from '../index';
-import { printResults } from '../print';
+import { printResultDiff, printResults } from '../print';
 
 describe('printResults', () => {
   const expectedContext = {
@@ -8,14 +8,24 @@ describe('printResults', () => {
     cwd: 'cwd/string',
     moduleDirectory: [],
     dependencies: {},
+    devDependencies: {},
     peerDependencies: {},
+    declaredDependencies: {},
+    scriptDependencies: {},
     config: {
       entryFiles: [{ file: 'src/client/main.js', aliases: {}, extensions: [] }],
       extensions: [],
+      devEntry: [],
       ignorePatterns: [],
       ignoreUnimported: [],
+      ignoreUnimportedPatterns: [],
       ignoreUnused: [],
       ignoreUnresolved: [],
+      ignoreMissing: [],
+      conditions: [],
+      toolAliases: {},
+      plugins: [],
+      configFiles: [],
     },
   } as Context;
 
@@ -34,6 +44,7 @@ describe('printResults', () => {
       unresolved: [],
       unimported: [],
       unused: [],
+      missing: [],
       clean: true,
     };
     printResults(expectedProcessedResult, expectedContext);
@@ -45,9 +56,16 @@ describe('printResults', () => {
 
   it('should print summary and unresolved, unimported, and unused tables populated', () => {
     const expectedProcessedResult = {
-      unresolved: ['string', 'string'],
+      unresolved: [
+        {
+          path: 'string',
+          importers: [{ file: 'string', line: 1, column: 1 }],
+        },
+        { path: 'string', importers: [] },
+      ],
       unimported: ['string', 'string', 'string', 'string'],
       unused: ['string', 'string', 'string'],
+      missing: [],
       clean: false,
     };
     printResults(expectedProcessedResult, expectedContext);
@@ -56,17 +74,18 @@ describe('printResults', () => {
       "
              summary               unimported v1.0.0
       ────────────────────────────────────────────────────────────────────────────────
-             entry file          : src/client/main.js
+             entry file           : src/client/main.js
 
-             unresolved imports  : 2
-             unused dependencies : 3
-             unimported files    : 4
+             unresolved imports   : 2
+             unused dependencies  : 3
+             unimported files     : 4
+             missing dependencies : 0
 
 
       ─────┬──────────────────────────────────────────────────────────────────────────
            │ 2 unresolved imports
       ─────┼──────────────────────────────────────────────────────────────────────────
-         1 │ string
+         1 │ string imported from string:1:1
          2 │ string
       ─────┴──────────────────────────────────────────────────────────────────────────
 
@@ -93,4 +112,304 @@ describe('printResults', () => {
              Inspect the results and run npx unimported -u to update ignore lists"
     `);
   });
+
+  it('should print unused exports when available', () => {
+    printResults(
+      {
+        unresolved: [],
+        unimported: [],
+        unused: [],
+        missing: [],
+        unusedExports: [
+          { name: 'helper', loc: { file: 'src/a.js', line: 3, column: 1 } },
+        ],
+        clean: false,
+      },
+      expectedContext,
+    );
+
+    expect(getLog().log).toMatch(/unused exports\s+: 1/);
+    expect(getLog().log).toMatch(
+      /1 unused exports.*helper exported from src\/a.js:3:1/s,
+    );
+  });
+
+  it('should print the fixed baseline entries when results are clean', () => {
+    printResults(
+      {
+        unresolved: [],
+        unimported: [],
+        unused: [],
+        missing: [],
+        fixedBaseline: [
+          { type: 'unimported', value: 'src/a.js' },
+          { type: 'unused', value: 'lodash' },
+        ],
+        clean: true,
+      },
+      expectedContext,
+    );
+
+    expect(getLog().log).toMatch(
+      /2 baseline entries are fixed.*src\/a.js unimported file.*lodash unused dependency/s,
+    );
+    expect(getLog().log).toMatch(/npx unimported --write-baseline/);
+  });
+});
+
+describe('printResults with json format', () => {
+  const context = {
+    version: '1.0.0',
+    cwd: 'cwd/string',
+    moduleDirectory: ['node_modules'],
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    declaredDependencies: {},
+    scriptDependencies: {},
+    format: 'json',
+    config: {
+      preset: 'node',
+      entryFiles: [
+        {
+          file: 'src/client/main.js',
+          label: 'client',
+          aliases: {},
+          extensions: [],
+        },
+      ],
+      extensions: ['.js'],
+      devEntry: [],
+      ignorePatterns: ['**/node_modules/**'],
+      ignoreUnimported: [],
+      ignoreUnimportedPatterns: [],
+      ignoreUnused: [],
+      ignoreUnresolved: [],
+      ignoreMissing: [],
+      conditions: [],
+      toolAliases: {},
+      plugins: [],
+      configFiles: [],
+    },
+  } as Context;
+
+  let restore: any;
+  beforeEach(() => {
+    restore = mockConsole(createConsole());
+  });
+  afterEach(() => {
+    jest.clearAllMocks();
+    restore();
+  });
+
+  it('should print a versioned json report', () => {
+    printResults(
+      {
+        unresolved: [
+          {
+            path: './missing',
+            importers: [{ file: 'src/index.js', line: 2, column: 1 }],
+          },
+        ],
+        unimported: ['src/dead.js'],
+        unused: ['left-pad'],
+        missing: [],
+        clean: false,
+      },
+      context,
+    );
+
+    expect(JSON.parse(getLog().log)).toEqual({
+      reportVersion: 2,
+      version: '1.0.0',
+      preset: 'node',
+      entryFiles: [{ file: 'src/client/main.js', label: 'client' }],
+      config: {
+        extensions: ['.js'],
+        ignorePatterns: ['**/node_modules/**'],
+        moduleDirectory: ['node_modules'],
+        flow: false,
+      },
+      summary: { unresolved: 1, unused: 1, unimported: 1, missing: 0 },
+      unresolved: ['./missing'],
+      unresolvedImports: [
+        {
+          path: './missing',
+          importers: [{ file: 'src/index.js', line: 2, column: 1 }],
+        },
+      ],
+      unused: ['left-pad'],
+      unimported: ['src/dead.js'],
+      missing: [],
+      clean: false,
+    });
+  });
+
+  it('should print json for clean results', () => {
+    printResults(
+      { unresolved: [], unimported: [], unused: [], missing: [], clean: true },
+      context,
+    );
+
+    expect(JSON.parse(getLog().log)).toMatchObject({
+      summary: { unresolved: 0, unused: 0, unimported: 0, missing: 0 },
+      clean: true,
+    });
+  });
+});
+
+describe('printResults with sarif format', () => {
+  const context = {
+    version: '1.0.0',
+    cwd: 'cwd/string',
+    moduleDirectory: ['node_modules'],
+    dependencies: {},
+    devDependencies: {},
+    peerDependencies: {},
+    declaredDependencies: {},
+    scriptDependencies: {},
+    format: 'sarif',
+    config: {
+      entryFiles: [{ file: 'src/main.js', aliases: {}, extensions: [] }],
+      extensions: ['.js'],
+      devEntry: [],
+      ignorePatterns: [],
+      ignoreUnimported: [],
+      ignoreUnimportedPatterns: [],
+      ignoreUnused: [],
+      ignoreUnresolved: [],
+      ignoreMissing: [],
+      conditions: [],
+      toolAliases: {},
+      plugins: [],
+      configFiles: [],
+    },
+  } as Context;
+
+  let restore: any;
+  beforeEach(() => {
+    restore = mockConsole(createConsole());
+  });
+  afterEach(() => {
+    jest.clearAllMocks();
+    restore();
+  });
+
+  it('should report a location for every finding', () => {
+    printResults(
+      {
+        unresolved: [
+          {
+            path: './missing',
+            importers: [
+              { file: 'src/main.js', line: 1, column: 1 },
+              { file: 'src/other.js', line: 12, column: 3 },
+            ],
+          },
+        ],
+        unimported: ['src/dead.js'],
+        unused: ['left-pad'],
+        missing: [
+          {
+            name: 'lodash',
+            importers: [{ file: 'src/main.js', line: 2, column: 1 }],
+          },
+        ],
+        clean: false,
+      },
+      context,
+    );
+
+    const report = JSON.parse(getLog().log);
+    const [run] = report.runs;
+
+    expect(report.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual([
+      'unresolved-import',
+      'unused-dependency',
+      'unimported-file',
+      'unused-export',
+      'unused-dev-dependency',
+      'production-dev-dependency',
+      'dev-only-dependency',
+      'missing-dependency',
+      'builtin-import',
+      'widened-import',
+    ]);
+
+    expect(
+      run.results.map((result) => [
+        result.ruleId,
+        result.ruleIndex,
+        result.locations[0].physicalLocation.artifactLocation.uri,
+        result.locations[0].physicalLocation.region,
+      ]),
+    ).toEqual([
+      ['unresolved-import', 0, 'src/main.js', { startLine: 1, startColumn: 1 }],
+      [
+        'unresolved-import',
+        0,
+        'src/other.js',
+        { startLine: 12, startColumn: 3 },
+      ],
+      ['unused-dependency', 1, 'package.json', undefined],
+      ['unimported-file', 2, 'src/dead.js', undefined],
+      [
+        'missing-dependency',
+        7,
+        'src/main.js',
+        { startLine: 2, startColumn: 1 },
+      ],
+    ]);
+  });
+
+  it('should print an empty result list when results are clean', () => {
+    printResults(
+      { unresolved: [], unimported: [], unused: [], missing: [], clean: true },
+      context,
+    );
+
+    expect(JSON.parse(getLog().log).runs[0].results).toEqual([]);
+  });
+});
+
+describe('printResultDiff', () => {
+  const context = { cwd: '/project' } as Context;
+
+  let restore: any;
+  beforeEach(() => {
+    const strippingConsole = createConsole({ stripAnsi: true });
+    restore = mockConsole(strippingConsole);
+  });
+  afterEach(() => {
+    restore();
+  });
+
+  it('should print new and resolved findings', () => {
+    printResultDiff(
+      {
+        added: [{ type: 'unimported', value: 'src/a.js' }],
+        removed: [{ type: 'unresolved', value: './b' }],
+      },
+      ['/project/src/index.js'],
+      context,
+    );
+
+    expect(getLog().log).toMatchInlineSnapshot(`
+      "
+      src/index.js changed
+      + unimported file src/a.js
+      - unresolved import ./b"
+    `);
+  });
+
+  it('should print when findings did not change', () => {
+    printResultDiff({ added: [], removed: [] }, ['/project/a.js'], context);
+
+    expect(getLog().log).toMatchInlineSnapshot(`
+      "
+      a.js changed
+      no changes in findings"
+    `);
+  });
 });
@@ -0,0 +1,90 @@
+import { extractScripts, isSingleFileComponent } from '../sfc';
+
+it('should recognize vue, svelte and astro components', () => {
+  expect(isSingleFileComponent('.vue')).toBe(true);
+  expect(isSingleFileComponent('.svelte')).toBe(true);
+  expect(isSingleFileComponent('.astro')).toBe(true);
+  expect(isSingleFileComponent('.tsx')).toBe(false);
+});
+
+it('should extract all script blocks of a vue component, and keep positions', () => {
+  const code = [
+    '<template><div /></template>',
+    '<script>',
+    "import a from './a';",
+    '</script>',
+    '<script setup lang="ts" generic="T extends Array<U>">',
+    "  import b from './b';",
+    '</script>',
+  ].join('\n');
+
+  const { blocks, sources } = extractScripts(code, '.vue');
+
+  expect(sources).toEqual([]);
+  expect(blocks.map((x) => x.jsx)).toEqual([true, false]);
+  expect(blocks[0].code.split('\n')[2]).toBe("import a from './a';");
+  expect(blocks[1].code.split('\n')[5]).toBe("  import b from './b';");
+  expect(blocks[1].code).not.toMatch(/script|import a/);
+});
+
+it('should list external scripts, and skip scripts that are not code', () => {
+  const code = [
+    '<script src="./external.ts"></script>',
+    '<script src="https://example.com/x.js"></script>',
+    '<script type="text/x-template" id="tpl"><div /></script>',
+    '<script type="module">import x from \'./x\';</script>',
+  ].join('\n');
+
+  const { blocks, sources } = extractScripts(code, '.vue');
+
+  expect(sources).toEqual([
+    { path: './external.ts', loc: { line: 1, column: 1 } },
+  ]);
+  expect(blocks).toHaveLength(1);
+  expect(blocks[0].code.trim()).toBe("import x from './x';");
+});
+
+it('should extract the module and instance scripts of svelte components', () => {
+  const code = [
+    '<script context="module" lang="ts">',
+    "  export { load } from './load';",
+    '</script>',
+    '<script>',
+    "  import Button from './Button.svelte';",
+    '</script>',
+    '<Button />',
+  ].join('\n');
+
+  const { blocks } = extractScripts(code, '.svelte');
+
+  expect(blocks.map((x) => [x.jsx, x.code.trim()])).toEqual([
+    [false, "export { load } from './load';"],
+    [true, "import Button from './Button.svelte';"],
+  ]);
+});
+
+it('should extract the frontmatter and processed scripts of astro components', () => {
+  const code = [
+    '---',
+    "import Layout from '../layouts/Layout.astro';",
+    '---',
+    '<Layout>',
+    '  <script>',
+    "    import './client';",
+    '  </script>',
+    '  <script is:inline>',
+    "    console.log('inline');",
+    '  </script>',
+    '</Layout>',
+  ].join('\n');
+
+  const { blocks } = extractScripts(code, '.astro');
+
+  expect(blocks.map((x) => [x.jsx, x.code.trim()])).toEqual([
+    [false, "import Layout from '../layouts/Layout.astro';"],
+    [true, "import './client';"],
+  ]);
+  expect(blocks[0].code.split('\n')[1]).toBe(
+    "import Layout from '../layouts/Layout.astro';",
+  );
+});
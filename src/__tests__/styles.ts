@@ -0,0 +1,52 @@
+import { extractStyleImports, isAsset, isStylesheet } from '../styles';
+
+it('should recognize stylesheets and assets', () => {
+  expect(isStylesheet('.scss')).toBe(true);
+  expect(isStylesheet('.pcss')).toBe(true);
+  expect(isStylesheet('.js')).toBe(false);
+  expect(isAsset('.png')).toBe(true);
+  expect(isAsset('.woff2')).toBe(true);
+  expect(isAsset('.css')).toBe(false);
+});
+
+it('should extract the imports and urls of scss files', () => {
+  const code = [
+    "@use 'sass:math';",
+    "@use 'config' as c;",
+    "@forward 'src/list' hide list-reset;",
+    "@import 'a', 'b';",
+    '// @import "commented";',
+    '/* @import "commented"; */',
+    '.logo {',
+    "  background: url('../img/logo.png?v=1') no-repeat;",
+    '  mask: url(data:image/svg+xml;base64,AAAA);',
+    '  cursor: url(#{$path}/cursor.png);',
+    '  src: url(http://example.com/font.woff);',
+    '}',
+  ].join('\n');
+
+  expect(extractStyleImports(code, '.scss')).toEqual([
+    { type: 'import', path: 'config', loc: { line: 2, column: 6 } },
+    { type: 'import', path: 'src/list', loc: { line: 3, column: 10 } },
+    { type: 'import', path: 'a', loc: { line: 4, column: 9 } },
+    { type: 'import', path: 'b', loc: { line: 4, column: 14 } },
+    { type: 'url', path: '../img/logo.png', loc: { line: 8, column: 15 } },
+  ]);
+});
+
+it('should extract the imports of css, less and indented sass files', () => {
+  expect(
+    extractStyleImports(`@import url("./reset.css") screen;`, '.css'),
+  ).toEqual([
+    { type: 'url', path: './reset.css', loc: { line: 1, column: 9 } },
+  ]);
+
+  expect(extractStyleImports(`@import (reference) "mixins";`, '.less')).toEqual(
+    [{ type: 'import', path: 'mixins', loc: { line: 1, column: 21 } }],
+  );
+
+  expect(extractStyleImports(`@import variables, mixins`, '.sass')).toEqual([
+    { type: 'import', path: 'variables', loc: { line: 1, column: 1 } },
+    { type: 'import', path: 'mixins', loc: { line: 1, column: 1 } },
+  ]);
+});
@@ -0,0 +1,59 @@
+import {
+  getSubpathTargets,
+  normalizeExports,
+  resolveSubpath,
+  resolveTarget,
+} from '../subpath';
+
+it('should pick the first active condition in package.json order', () => {
+  const target = {
+    browser: './browser.js',
+    import: './index.mjs',
+    default: './index.js',
+  };
+
+  expect(resolveTarget(target, ['import', 'browser'])).toBe('./browser.js');
+  expect(resolveTarget(target, ['import'])).toBe('./index.mjs');
+  expect(resolveTarget(target, [])).toBe('./index.js');
+  expect(resolveTarget({ browser: './browser.js' }, [])).toBe(null);
+});
+
+it('should normalize the exports shorthands to a subpath map', () => {
+  expect(normalizeExports('./index.js')).toEqual({ '.': './index.js' });
+  expect(normalizeExports({ import: './index.mjs' })).toEqual({
+    '.': { import: './index.mjs' },
+  });
+  expect(normalizeExports({ './a': './a.js' })).toEqual({ './a': './a.js' });
+  expect(normalizeExports(undefined)).toEqual({});
+});
+
+it('should prefer exact matches over patterns, and longer patterns over shorter ones', () => {
+  const map = {
+    '#internal/*': './src/internal/*.js',
+    '#internal/deep/*': './src/deep/*.js',
+    '#internal/main': './src/main.js',
+  };
+
+  expect(resolveSubpath(map, '#internal/main', [])).toBe('./src/main.js');
+  expect(resolveSubpath(map, '#internal/util', [])).toBe(
+    './src/internal/util.js',
+  );
+  expect(resolveSubpath(map, '#internal/deep/util', [])).toBe(
+    './src/deep/util.js',
+  );
+  expect(resolveSubpath(map, '#other', [])).toBe(null);
+});
+
+it('should list the targets of all subpaths as globs', () => {
+  const map = {
+    '.': { import: './index.mjs', default: './index.js' },
+    './features/*': './src/features/*.js',
+    './package.json': './package.json',
+  };
+
+  expect(getSubpathTargets(map, ['require'])).toEqual([
+    './index.js',
+    './src/features/**/*.js',
+    './package.json',
+  ]);
+});
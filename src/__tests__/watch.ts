@@ -0,0 +1,168 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { diffResults } from '../process';
+import { startSession, updateSession, watchSession } from '../watch';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'unimported-'));
+
+function createProject(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(root, 'project-'));
+
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.join(dir, path.dirname(name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+
+  return fs.realpathSync(dir);
+}
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+it('should only parse the changed files again', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'index.js': `import a from './a'; import b from './b';`,
+    'a.js': '',
+    'b.js': `import c from './c';`,
+    'c.js': '',
+  });
+
+  const session = await startSession({ cwd: dir });
+  const previous = session.report;
+  expect(previous.result.clean).toBe(true);
+
+  fs.writeFileSync(path.join(dir, 'b.js'), `import d from './d';`);
+  const next = await updateSession(session, [`${dir}/b.js`]);
+
+  expect(Array.from(next.graph.files.keys())).toEqual([
+    `${dir}/a.js`,
+    `${dir}/b.js`,
+    `${dir}/index.js`,
+  ]);
+  expect(next.graph.files.get(`${dir}/a.js`)).toBe(
+    previous.graph.files.get(`${dir}/a.js`),
+  );
+  expect(diffResults(previous.result, next.result)).toEqual({
+    added: [
+      { type: 'unimported', value: 'c.js' },
+      { type: 'unresolved', value: './d' },
+    ],
+    removed: [],
+  });
+});
+
+it('should resolve imports of files that are added, and report removed files', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'index.js': `import a from './a'; import b from './b';`,
+    'a.js': '',
+  });
+
+  const session = await startSession({ cwd: dir });
+  expect(session.report.result.unresolved.map((x) => x.path)).toEqual(['./b']);
+
+  fs.writeFileSync(path.join(dir, 'b.js'), '');
+  let previous = session.report;
+  let next = await updateSession(session, [`${dir}/b.js`]);
+
+  expect(diffResults(previous.result, next.result)).toEqual({
+    added: [],
+    removed: [{ type: 'unresolved', value: './b' }],
+  });
+
+  fs.rmSync(path.join(dir, 'a.js'));
+  previous = next;
+  next = await updateSession(session, [`${dir}/a.js`]);
+
+  expect(diffResults(previous.result, next.result)).toEqual({
+    added: [{ type: 'unresolved', value: './a' }],
+    removed: [],
+  });
+});
+
+it('should restart the analysis when the config changes', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'index.js': '',
+    'a.js': '',
+  });
+
+  const session = await startSession({ cwd: dir });
+  expect(session.report.result.unimported).toEqual(['a.js']);
+
+  fs.writeFileSync(
+    path.join(dir, '.unimportedrc.json'),
+    '{ "ignoreUnimported": ["a.js"] }',
+  );
+  const next = await updateSession(session, [`${dir}/.unimportedrc.json`]);
+
+  expect(next.result.unimported).toEqual([]);
+  expect(session.report).toBe(next);
+});
+
+it('should restart the analysis when an extended tsconfig or a tool config changes', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'tsconfig.json': '{ "extends": "./config/tsconfig.base.json" }',
+    'config/tsconfig.base.json': JSON.stringify({
+      compilerOptions: { baseUrl: '..', paths: { '@/*': ['src/one/*'] } },
+    }),
+    'index.js': `import a from '@/a'; import b from '~/b';`,
+    'src/one/a.js': '',
+    'src/two/a.js': '',
+    'src/two/b.js': '',
+  });
+
+  const session = await startSession({ cwd: dir });
+  expect(session.report.result.unimported).toEqual([
+    'src/two/a.js',
+    'src/two/b.js',
+  ]);
+
+  fs.writeFileSync(
+    path.join(dir, 'config/tsconfig.base.json'),
+    JSON.stringify({
+      compilerOptions: { baseUrl: '..', paths: { '@/*': ['src/two/*'] } },
+    }),
+  );
+  let next = await updateSession(session, [`${dir}/config/tsconfig.base.json`]);
+
+  expect(next.result.unimported).toEqual(['src/one/a.js', 'src/two/b.js']);
+
+  fs.writeFileSync(
+    path.join(dir, 'vite.config.js'),
+    `export default { resolve: { alias: { '~': '/src/two' } } };`,
+  );
+  next = await updateSession(session, [`${dir}/vite.config.js`]);
+
+  expect(next.result.unimported).toEqual(['src/one/a.js']);
+  expect(next.result.unresolved).toEqual([]);
+});
+
+it('should update the report when files change on disk', async () => {
+  const dir = createProject({
+    'package.json': '{ "main": "index.js" }',
+    'index.js': `import a from './a';`,
+    'a.js': '',
+  });
+
+  const session = await startSession({ cwd: dir });
+
+  const update = new Promise<string[]>((resolve, reject) => {
+    const watcher = watchSession(session, {
+      onReport(report, previous, changed) {
+        watcher.close();
+        expect(report.result.unimported).toEqual(['a.js']);
+        resolve(changed);
+      },
+      onError: reject,
+    });
+
+    fs.writeFileSync(path.join(dir, 'index.js'), '');
+  });
+
+  await expect(update).resolves.toEqual([`${dir}/index.js`]);
+});
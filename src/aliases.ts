@@ -0,0 +1,333 @@
+import path from 'path';
+import {
+  AST_NODE_TYPES,
+  parse as parseEstree,
+  TSESTree,
+} from '@typescript-eslint/typescript-estree';
+import Traverser from 'eslint/lib/shared/traverser';
+import { MapLike } from 'typescript';
+import * as fs from './fs';
+import { log } from './log';
+import { PackageJson } from './index';
+
+type Aliases = MapLike<string[]>;
+
+interface ToolConfig {
+  file: string;
+  code: string;
+}
+
+export const TOOL_CONFIG_FILES = [
+  'webpack.config.js',
+  'webpack.config.cjs',
+  'webpack.config.mjs',
+  'webpack.config.ts',
+  'vite.config.js',
+  'vite.config.cjs',
+  'vite.config.mjs',
+  'vite.config.ts',
+  'vite.config.mts',
+  '.babelrc',
+  '.babelrc.json',
+  '.babelrc.js',
+  '.babelrc.cjs',
+  'babel.config.json',
+  'babel.config.js',
+  'babel.config.cjs',
+  'jest.config.json',
+  'jest.config.js',
+  'jest.config.cjs',
+  'jest.config.mjs',
+  'jest.config.ts',
+];
+
+function getKey(node: TSESTree.Node): string | undefined {
+  if (node.type === AST_NODE_TYPES.Identifier) {
+    return node.name;
+  }
+
+  if (node.type === AST_NODE_TYPES.Literal && typeof node.value === 'string') {
+    return node.value;
+  }
+}
+
+/**
+ * Evaluate the expressions that are commonly used to declare alias targets,
+ * like `'./src'`, `path.resolve(__dirname, 'src')` or
+ * `fileURLToPath(new URL('./src', import.meta.url))`.
+ */
+function evaluate(node: TSESTree.Node, dir: string): string | undefined {
+  switch (node.type) {
+    case AST_NODE_TYPES.Literal:
+      return typeof node.value === 'string' ? node.value : undefined;
+
+    case AST_NODE_TYPES.TemplateLiteral:
+      return node.expressions.length
+        ? undefined
+        : node.quasis[0].value.cooked ?? undefined;
+
+    case AST_NODE_TYPES.Identifier:
+      return node.name === '__dirname' ? dir : undefined;
+
+    case AST_NODE_TYPES.NewExpression: {
+      // new URL('./src', import.meta.url)
+      const [url] = node.arguments;
+      const callee = getKey(node.callee);
+      const value = url && evaluate(url, dir);
+      return callee === 'URL' && value ? path.resolve(dir, value) : undefined;
+    }
+
+    case AST_NODE_TYPES.MemberExpression: {
+      // new URL('./src', import.meta.url).pathname
+      const object = node.object as TSESTree.Node;
+      return object.type === AST_NODE_TYPES.NewExpression &&
+        getKey(node.property) === 'pathname'
+        ? evaluate(object, dir)
+        : undefined;
+    }
+
+    case AST_NODE_TYPES.CallExpression: {
+      const callee =
+        node.callee.type === AST_NODE_TYPES.MemberExpression
+          ? getKey(node.callee.property)
+          : getKey(node.callee);
+
+      const args = node.arguments.map((arg) => evaluate(arg, dir));
+
+      if (args.some((arg) => arg === undefined)) {
+        return undefined;
+      }
+
+      switch (callee) {
+        case 'resolve':
+          return path.resolve(dir, ...(args as string[]));
+        case 'join':
+          return path.join(...(args as string[]));
+        case 'fileURLToPath':
+          return args[0];
+      }
+    }
+  }
+}
+
+// bare targets, like `vue/dist/vue.esm.js`, alias to packages instead of files.
+// vite resolves targets like `/src` against the project root, rather than the
+// root of the file system.
+function toPath(
+  target: string,
+  dir: string,
+  rootRelative = false,
+): string | undefined {
+  if (!target.startsWith('.') && !path.isAbsolute(target)) {
+    return undefined;
+  }
+
+  const relative = path.relative(dir, target);
+
+  if (rootRelative && target.startsWith('/') && relative.startsWith('..')) {
+    return path.join(dir, target);
+  }
+
+  return path.resolve(dir, target);
+}
+
+// webpack uses `$` for exact matches, directories get a trailing slash, to not
+// match `@/foo` on `@foo`
+function addAlias(aliases: Aliases, key: string, target: string) {
+  const exact = key.endsWith('$');
+  const alias = exact ? key.slice(0, -1) : key.replace(/\/$/, '');
+
+  if (exact || path.extname(target)) {
+    aliases[alias] = [target];
+    return;
+  }
+
+  aliases[`${alias}/`] = [`${target.replace(/\/$/, '')}/`];
+}
+
+// `^@/(.*)$` to `@/`, and `^config$` to `config`
+function convertModuleNameMapper(
+  pattern: string,
+  target: string,
+  rootDir: string,
+): [string, string] | undefined {
+  const prefix = pattern.match(/^\^([\w@~/.-]*?)\(\.\*\)\$$/);
+  const exact = pattern.match(/^\^([\w@~/-]+)\$$/);
+  const file = target.replace(/<rootDir>/g, rootDir);
+
+  if (prefix && file.endsWith('$1')) {
+    return [prefix[1], file.slice(0, -2)];
+  }
+
+  if (exact && !file.includes('$')) {
+    return [exact[1], file];
+  }
+}
+
+function warn(file: string, alias?: string) {
+  log.warn(
+    alias
+      ? `unable to read alias ${alias} from ${file}, as it's computed dynamically. Add it to the aliases in .unimportedrc.json instead.`
+      : `unable to read the aliases from ${file}, as they're computed dynamically. Add them to the aliases in .unimportedrc.json instead.`,
+  );
+}
+
+function extractAliases(config: ToolConfig, dir: string): Aliases {
+  const aliases: Aliases = {};
+
+  let ast: TSESTree.Program;
+  try {
+    ast = parseEstree(config.code, { comment: false, jsx: false });
+  } catch (error) {
+    log.info('unable to parse %s %O', config.file, error);
+    return aliases;
+  }
+
+  const vite = config.file.startsWith('vite.config');
+
+  Traverser.traverse(ast, {
+    enter(node: TSESTree.Node) {
+      if (node.type !== AST_NODE_TYPES.Property) {
+        return;
+      }
+
+      const key = getKey(node.key);
+
+      // webpack, vite and babel-plugin-module-resolver
+      if (key === 'alias') {
+        if (node.value.type === AST_NODE_TYPES.ObjectExpression) {
+          for (const property of node.value.properties) {
+            if (
+              property.type !== AST_NODE_TYPES.Property ||
+              property.computed
+            ) {
+              warn(config.file);
+              continue;
+            }
+
+            const alias = getKey(property.key);
+            const value = evaluate(property.value, dir);
+            const target = value && toPath(value, dir, vite);
+
+            // regular expressions are used by module-resolver
+            if (!alias || value === undefined || alias.startsWith('^')) {
+              warn(config.file, alias);
+            } else if (target) {
+              addAlias(aliases, alias, target);
+            }
+          }
+        } else if (node.value.type === AST_NODE_TYPES.ArrayExpression) {
+          // vite: [{ find: '@', replacement: '/src' }]
+          for (const element of node.value.elements) {
+            const entry =
+              element?.type === AST_NODE_TYPES.ObjectExpression
+                ? element.properties
+                : [];
+
+            const get = (name: string) => {
+              const property = entry.find(
+                (x) =>
+                  x.type === AST_NODE_TYPES.Property && getKey(x.key) === name,
+              ) as TSESTree.Property | undefined;
+              return property && evaluate(property.value, dir);
+            };
+
+            const find = get('find');
+            const replacement = get('replacement');
+            const target = replacement && toPath(replacement, dir, vite);
+
+            if (find === undefined || replacement === undefined) {
+              warn(config.file, find);
+            } else if (target) {
+              addAlias(aliases, find, target);
+            }
+          }
+        } else {
+          warn(config.file);
+        }
+      }
+
+      // jest
+      if (
+        key === 'moduleNameMapper' &&
+        node.value.type === AST_NODE_TYPES.ObjectExpression
+      ) {
+        for (const property of node.value.properties) {
+          if (property.type !== AST_NODE_TYPES.Property) {
+            continue;
+          }
+
+          const pattern = getKey(property.key);
+          const value =
+            property.value.type === AST_NODE_TYPES.ArrayExpression &&
+            property.value.elements[0]
+              ? evaluate(property.value.elements[0], dir)
+              : evaluate(property.value, dir);
+
+          // mappers to packages, like `identity-obj-proxy` for stylesheets
+          if (
+            !pattern ||
+            !value ||
+            !toPath(value.replace('<rootDir>', '.'), dir)
+          ) {
+            continue;
+          }
+
+          const mapped = convertModuleNameMapper(pattern, value, dir);
+          const target = mapped && toPath(mapped[1], dir);
+
+          if (mapped && target) {
+            addAlias(aliases, mapped[0], target);
+          } else {
+            warn(config.file, pattern);
+          }
+        }
+      }
+    },
+  });
+
+  return aliases;
+}
+
+async function readToolConfigs(cwd: string): Promise<ToolConfig[]> {
+  const configs: ToolConfig[] = [];
+
+  for (const file of TOOL_CONFIG_FILES) {
+    const code = await fs.readText(file, cwd);
+
+    if (code) {
+      // json files are parsed as expression, so that they can be handled alike
+      configs.push({
+        file,
+        code: /\.[cm]?[jt]s$/.test(file) ? code : `(${code})`,
+      });
+    }
+  }
+
+  const packageJson = await fs.readJson<PackageJson>('package.json', cwd);
+
+  for (const key of ['babel', 'jest']) {
+    if (packageJson?.[key]) {
+      configs.push({
+        file: `package.json#${key}`,
+        code: `(${JSON.stringify(packageJson[key])})`,
+      });
+    }
+  }
+
+  return configs;
+}
+
+/**
+ * Read the aliases that are declared in the configs of webpack, vite, babel
+ * (babel-plugin-module-resolver) and jest. Target paths are absolute.
+ */
+export async function getToolAliases(cwd = process.cwd()): Promise<Aliases> {
+  const aliases: Aliases = {};
+
+  for (const config of await readToolConfigs(cwd)) {
+    Object.assign(aliases, extractAliases(config, cwd));
+  }
+
+  return aliases;
+}
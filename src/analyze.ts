@@ -0,0 +1,507 @@
+import path, { join } from 'path';
+import readPkgUp from 'read-pkg-up';
+import simpleGit from 'simple-git';
+
+import * as fs from './fs';
+import * as meta from './meta';
+import {
+  addMissing,
+  addUnresolved,
+  getResultObject,
+  PackageScope,
+  traverse,
+  TraverseConfig,
+  TraverseResult,
+} from './traverse';
+import { ProcessedResult, processResults } from './process';
+import {
+  EntryConfig,
+  getConfig,
+  getDevEntryFiles,
+  UnimportedConfig,
+} from './config';
+import {
+  getCacheIdentity,
+  InvalidCacheError,
+  purgeCache,
+  storeCache,
+} from './cache';
+import { ParseError, ProjectError, UnimportedError } from './errors';
+import { log, withWarnings } from './log';
+import { filterChanges, getChanges } from './changed';
+import { applyBaseline } from './baseline';
+import { Workspace } from './workspaces';
+import type { Context, PackageJson, ReportFormat } from './index';
+
+export interface AnalyzeOptions {
+  // the project root, or a directory within the project, defaults to the
+  // current work dir
+  cwd?: string;
+  // settings that take precedence over those in .unimportedrc.json
+  config?: Partial<UnimportedConfig>;
+  flow?: boolean;
+  // cache the parse results in node_modules/.cache/unimported
+  cache?: boolean;
+  unusedExports?: boolean;
+  checkDevDependencies?: boolean;
+  reportBuiltins?: boolean;
+  ignoreUntracked?: boolean;
+  // only report the findings that involve the files changed since this ref
+  changedSince?: string;
+  // drop the findings that are in .unimported-baseline.json, defaults to true
+  baseline?: boolean;
+  // used by the cli, to print the report
+  format?: ReportFormat;
+  dryRun?: boolean;
+}
+
+export interface Report {
+  context: Context;
+  // the source files of the project, which are expected to be imported
+  files: string[];
+  // the import graph, from the entry files, by absolute file path
+  graph: TraverseResult;
+  // the import graph from the test and tooling files, with checkDevDependencies
+  devGraph?: TraverseResult;
+  result: ProcessedResult;
+  // warnings of the analysis, like aliases that can't be read from the config
+  // of a tool, these are only collected by `analyze`
+  warnings?: string[];
+}
+
+export interface Project {
+  // the real path of the directory that holds package.json
+  cwd: string;
+  // the version of unimported
+  version: string;
+}
+
+/**
+ * Find the root of the project that contains cwd, this enables us to run
+ * unimported from nested paths within the project
+ */
+export async function getProject(cwd = process.cwd()): Promise<Project> {
+  const projectPkg = await readPkgUp({ cwd });
+  const unimportedPkg = await readPkgUp({ cwd: __dirname });
+
+  // equality check to prevent tests from walking up and running on unimported itself
+  if (!projectPkg || !unimportedPkg || unimportedPkg.path === projectPkg.path) {
+    throw new ProjectError(
+      'could not resolve package.json, are you in a node project?',
+      cwd,
+    );
+  }
+
+  return {
+    cwd: await fs.realpath(path.dirname(projectPkg.path)),
+    version: unimportedPkg.packageJson.version,
+  };
+}
+
+// the traversal from a single entry file
+export interface EntryTraversal {
+  // absolute path of the entry file
+  file: string;
+  config: TraverseConfig;
+  result: TraverseResult;
+}
+
+function mergeTraverseResults(
+  target: TraverseResult,
+  source: TraverseResult,
+): void {
+  source.modules.forEach((module) => {
+    target.modules.add(module);
+  });
+  source.unresolved.forEach((locations, unresolved) => {
+    for (const location of locations) {
+      addUnresolved(target, unresolved, location);
+    }
+  });
+  source.missing.forEach((locations, name) => {
+    for (const location of locations) {
+      addMissing(target, name, location);
+    }
+  });
+
+  for (const [key, stat] of source.files) {
+    const prev = target.files.get(key);
+
+    if (!prev) {
+      target.files.set(key, stat);
+      continue;
+    }
+
+    const added = new Set(prev.imports.map((x) => x.path));
+    const imports = stat.imports.filter((file) => !added.has(file.path));
+
+    // copy, the stats are shared with the traversal of the other entry
+    if (imports.length) {
+      target.files.set(key, {
+        ...prev,
+        imports: [...prev.imports, ...imports],
+      });
+    }
+  }
+}
+
+/**
+ * Merge the traversals of the entry files into a single import graph
+ */
+export function mergeTraversals(traversals: EntryTraversal[]): TraverseResult {
+  const result = getResultObject();
+
+  for (const traversal of traversals) {
+    mergeTraverseResults(result, traversal.result);
+  }
+
+  return result;
+}
+
+/**
+ * Traverse the file, and the files that it imports. Files that are in `known`
+ * are not traversed again, and are included in the result.
+ */
+export async function traverseFile(
+  file: string,
+  config: TraverseConfig,
+  cwd: string,
+  known?: TraverseResult,
+): Promise<TraverseResult> {
+  // start from a copy, a failed attempt leaves a partial result behind
+  const attempt = () =>
+    traverse(file, config, {
+      ...getResultObject(),
+      files: new Map(known ? known.files : []),
+    });
+
+  const result = await attempt()
+    .catch((err) => {
+      if (err instanceof InvalidCacheError) {
+        purgeCache(cwd);
+        // Retry once after invalid cache case.
+        return attempt();
+      }
+
+      throw err;
+    })
+    .catch((err) => {
+      // traverse adds the path of the file that failed
+      throw err.path && !(err instanceof UnimportedError)
+        ? new ParseError(err.path, err)
+        : err;
+    });
+
+  result.files = new Map([...result.files].sort());
+  return result;
+}
+
+export async function traverseEntries(
+  entryFiles: EntryConfig[],
+  context: Context,
+): Promise<EntryTraversal[]> {
+  const { config, cwd } = context;
+  const traversals: EntryTraversal[] = [];
+
+  // devDependencies need to be known to the resolver, to not treat them as
+  // source files when they are imported.
+  const dependencies = context.checkDevDependencies
+    ? { ...context.dependencies, ...context.devDependencies }
+    : context.dependencies;
+
+  const packageJson = await fs.readJson<PackageJson>('package.json', cwd);
+  const packageScope: PackageScope = {
+    root: cwd,
+    name: packageJson?.name,
+    exports: packageJson?.exports,
+    imports: packageJson?.imports,
+  };
+
+  for (const entry of entryFiles) {
+    log.info('start traversal at %s', entry);
+
+    const aliases = await meta.getAliases(entry, cwd, config);
+    const traverseConfig: TraverseConfig = {
+      extensions: entry.extensions,
+      // resolve full path of aliases
+      aliases,
+      projectAliases: await meta.getProjectAliases(aliases, cwd),
+      cacheId: context.cache
+        ? getCacheIdentity(
+            entry,
+            dependencies,
+            {
+              conditions: config.conditions,
+              packageScope,
+              workspaces: context.workspaces?.map((x) => x.name),
+              plugins: config.plugins.map((x) => x.name),
+            },
+            cwd,
+          )
+        : undefined,
+      flow: context.flow,
+      moduleDirectory: context.moduleDirectory,
+      preset: config.preset,
+      dependencies,
+      conditions: config.conditions,
+      packageScope,
+      workspaces: context.workspaces,
+      plugins: config.plugins,
+    };
+
+    // we can't use a shared result here, to keep feeding to traverseResult
+    // as that would break the import alias overrides. A client-entry file
+    // can resolve `create-api` as `create-api-client.js` while server-entry
+    // would resolve `create-api` to `create-api-server`.
+    const file = path.resolve(cwd, entry.file);
+    const result = await traverseFile(file, traverseConfig, cwd);
+
+    // and that's why we need to merge manually
+    traversals.push({ file, config: traverseConfig, result });
+  }
+
+  return traversals;
+}
+
+export async function listFiles(context: Context): Promise<string[]> {
+  const { config, cwd } = context;
+  const baseUrl = (await fs.exists('src', cwd)) ? join(cwd, 'src') : cwd;
+  const files = await fs.list('**/*', baseUrl, {
+    extensions: config.extensions,
+    ignore: config.ignorePatterns,
+  });
+
+  return files.map((path) => path.replace(/\\/g, '/'));
+}
+
+async function createContext(
+  cwd: string,
+  options: AnalyzeOptions,
+  version: string,
+): Promise<Context> {
+  const { config: overrides, ...flags } = options;
+  const config = await getConfig(cwd, overrides);
+
+  const [
+    dependencies,
+    devDependencies,
+    peerDependencies,
+    declaredDependencies,
+    scriptDependencies,
+  ] = await Promise.all([
+    meta.getDependencies(cwd),
+    meta.getDevDependencies(cwd),
+    meta.getPeerDependencies(cwd),
+    meta.getDeclaredDependencies(cwd),
+    meta.getScriptDependencies(cwd),
+  ]);
+
+  const moduleDirectory = config.moduleDirectory ?? ['node_modules'];
+
+  return {
+    version,
+    dependencies,
+    devDependencies,
+    peerDependencies,
+    declaredDependencies,
+    scriptDependencies,
+    config,
+    moduleDirectory,
+    ...flags,
+    flow: config.flow ?? flags.flow,
+    workspaces: undefined,
+    cwd,
+  };
+}
+
+// the absolute paths of the files that are not tracked by git
+async function getUntrackedFiles(cwd: string): Promise<string[]> {
+  const git = simpleGit({ baseDir: cwd });
+  const status = await git.status();
+
+  return status.not_added.map((file) => path.resolve(cwd, file));
+}
+
+function ignoreFiles(context: Context, files: string[]): void {
+  // copy, the config can be shared with the contexts of other packages
+  context.config = {
+    ...context.config,
+    ignorePatterns: [...context.config.ignorePatterns, ...files],
+  };
+}
+
+/**
+ * Create the context for the project that contains `options.cwd`
+ */
+export async function getContext(options: AnalyzeOptions): Promise<Context> {
+  const { cwd, version } = await getProject(options.cwd);
+  const context = await createContext(cwd, options, version);
+
+  // Filter untracked files from git repositories
+  if (options.ignoreUntracked) {
+    ignoreFiles(context, await getUntrackedFiles(cwd));
+  }
+
+  return context;
+}
+
+/**
+ * Process the traversals into a report, the files of the project are listed
+ * again, to pick up files that are added or removed. Findings that are in the
+ * baseline are left out.
+ */
+export async function getReport(
+  context: Context,
+  traversals: EntryTraversal[],
+  devTraversals?: EntryTraversal[],
+): Promise<Report> {
+  const graph = mergeTraversals(traversals);
+  const devGraph = devTraversals ? mergeTraversals(devTraversals) : undefined;
+
+  const files = await listFiles(context);
+  const result = await applyBaseline(
+    await processResults(files, graph, context, devGraph),
+    context,
+  );
+
+  return { context, files, graph, devGraph, result };
+}
+
+/**
+ * Analyse the project that contains `options.cwd`. This doesn't change the
+ * work dir of the process, and doesn't print anything, warnings are returned
+ * on the report. Problems with the project are thrown as `UnimportedError`.
+ */
+export async function analyze(options: AnalyzeOptions = {}): Promise<Report> {
+  const warnings: string[] = [];
+  const report = await withWarnings(
+    (message) => warnings.push(message),
+    () => analyzeProject(options),
+  );
+
+  return { ...report, warnings };
+}
+
+async function analyzeProject(options: AnalyzeOptions): Promise<Report> {
+  const context = await getContext(options);
+  const { config, cwd } = context;
+  const traversals = await traverseEntries(config.entryFiles, context);
+
+  // test and tooling files are traversed separately, to tell apart the
+  // dependencies that are used in production, from those used in development
+  const devTraversals = options.checkDevDependencies
+    ? await traverseEntries(await getDevEntryFiles(config, cwd), context)
+    : undefined;
+
+  const report = await getReport(context, traversals, devTraversals);
+
+  if (options.changedSince) {
+    report.result = await filterChanges(
+      report,
+      [...traversals, ...(devTraversals || [])],
+      await getChanges(options.changedSince, cwd),
+    );
+  }
+
+  if (context.cache) {
+    storeCache();
+  }
+
+  return report;
+}
+
+export interface WorkspaceAnalysis {
+  workspace: Workspace;
+  context: Context;
+  files: string[];
+  traverseResult: TraverseResult;
+  devTraverseResult?: TraverseResult;
+}
+
+/**
+ * Analyse every package of the workspace with its own config, dependencies and
+ * entry files. Imports of other packages are resolved to their source, and
+ * those files are traversed as entry files of the package that owns them.
+ */
+export async function analyseWorkspaces(
+  workspaces: Workspace[],
+  options: AnalyzeOptions,
+  version: string,
+): Promise<WorkspaceAnalysis[]> {
+  const analyses: WorkspaceAnalysis[] = [];
+
+  // git is asked once, from the root of the workspace
+  const untracked = options.ignoreUntracked
+    ? await getUntrackedFiles(options.cwd || process.cwd())
+    : [];
+
+  for (const workspace of workspaces) {
+    const context = await createContext(workspace.dir, options, version);
+    context.workspaces = workspaces;
+    ignoreFiles(context, untracked);
+
+    const { config } = context;
+    analyses.push({
+      workspace,
+      context,
+      files: await listFiles(context),
+      traverseResult: mergeTraversals(
+        await traverseEntries(config.entryFiles, context),
+      ),
+      devTraverseResult: options.checkDevDependencies
+        ? mergeTraversals(
+            await traverseEntries(
+              await getDevEntryFiles(config, workspace.dir),
+              context,
+            ),
+          )
+        : undefined,
+    });
+  }
+
+  // files imported by other packages can import other packages in turn, keep
+  // going until every package has traversed all of them
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const analysis of analyses) {
+      const { name } = analysis.workspace;
+      const imported = new Set<string>();
+
+      for (const { traverseResult } of analyses) {
+        for (const stats of traverseResult.files.values()) {
+          for (const file of stats.imports) {
+            if (
+              file.type === 'workspace_module' &&
+              file.name === name &&
+              !analysis.traverseResult.files.has(file.path)
+            ) {
+              imported.add(file.path);
+            }
+          }
+        }
+      }
+
+      if (!imported.size) {
+        continue;
+      }
+
+      const { config } = analysis.context;
+      const [entry] = config.entryFiles;
+      const entryFiles = Array.from(imported).map((file) => ({
+        file,
+        aliases: entry?.aliases ?? {},
+        extensions: config.extensions,
+      }));
+
+      mergeTraverseResults(
+        analysis.traverseResult,
+        mergeTraversals(await traverseEntries(entryFiles, analysis.context)),
+      );
+      changed = true;
+    }
+  }
+
+  return analyses;
+}
@@ -0,0 +1,81 @@
+import path from 'path';
+import { readText, writeJson } from './fs';
+import { ConfigError } from './errors';
+import { ensureArray } from './ensureArray';
+import {
+  filterFindings,
+  Finding,
+  FindingValues,
+  getFindingValues,
+  ProcessedResult,
+} from './process';
+import type { Context } from './index';
+
+export const BASELINE_FILE = '.unimported-baseline.json';
+
+async function readBaseline(cwd: string): Promise<FindingValues | null> {
+  const text = await readText(BASELINE_FILE, cwd);
+
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    throw new ConfigError(
+      `${BASELINE_FILE} does not contain valid json: ${error.message}`,
+      path.join(cwd, BASELINE_FILE),
+    );
+  }
+}
+
+/**
+ * Store the findings of the result as baseline, unlike the ignore lists of
+ * .unimportedrc.json, these are accepted until they're fixed
+ */
+export async function writeBaseline(
+  result: ProcessedResult,
+  cwd: string,
+): Promise<FindingValues> {
+  const baseline = getFindingValues(result);
+  await writeJson(BASELINE_FILE, baseline, cwd);
+  return baseline;
+}
+
+/**
+ * Drop the findings that are in the baseline, so that only new findings make
+ * the result unclean. The baseline entries that are no longer found are
+ * returned as `fixedBaseline`, so the baseline can be pruned.
+ */
+export async function applyBaseline(
+  result: ProcessedResult,
+  context: Context,
+): Promise<ProcessedResult> {
+  const baseline =
+    context.baseline === false ? null : await readBaseline(context.cwd);
+
+  if (!baseline) {
+    return result;
+  }
+
+  const key = (type: string, value: string) => `${type}:${value}`;
+  const found = getFindingValues(result);
+  const accepted = new Set<string>();
+  const fixed: Finding[] = [];
+
+  for (const [name, values] of Object.entries(baseline)) {
+    const type = name as Finding['type'];
+    const current = new Set(found[type]);
+
+    for (const value of ensureArray(values || [])) {
+      accepted.add(key(type, value));
+
+      // the types that aren't checked in this run, can't be told fixed
+      if (found[type] && !current.has(value)) {
+        fixed.push({ type, value });
+      }
+    }
+  }
+
+  return {
+    ...filterFindings(result, (x) => !accepted.has(key(x.type, x.value))),
+    ...(fixed.length > 0 && { fixedBaseline: fixed }),
+  };
+}
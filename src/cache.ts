@@ -7,21 +7,45 @@ import { log } from './log';
 import path from 'path';
 import { rmSync } from 'fs';
 import { EntryConfig } from './config';
+import { MapLike } from 'typescript';
 
 type CacheMeta<T> = FileDescriptor['meta'] & { data: T };
 
+// bump this when the shape of the cached data changes, to prevent reading stale
+// entries that were written by a previous version
+const CACHE_VERSION = 9;
+
 // we keep cache groups per entry file, to keep the cache free from override conflicts
 const caches: Record<string, FileEntryCache> = {};
 
-export function getCacheIdentity(entry: EntryConfig): string {
+// the cache groups are stored in the project that they belong to
+const directories: Record<string, string> = {};
+
+function getCacheDirectory(cwd: string): string {
+  return path.resolve(cwd, './node_modules/.cache/unimported');
+}
+
+export function getCacheIdentity(
+  entry: EntryConfig,
+  dependencies: MapLike<string> = {},
+  resolveOptions: unknown = {},
+  cwd = process.cwd(),
+): string {
   // don't use just the file name, the entry file can be the same, while the
-  // overrides make it build target specific.
+  // overrides make it build target specific. The declared dependencies and
+  // resolve options are included, as those determine how imports are resolved.
   const value = JSON.stringify({
     ...entry,
-    filepath: path.resolve(entry.file),
+    filepath: path.resolve(cwd, entry.file),
+    dependencies: Object.keys(dependencies).sort(),
+    resolveOptions,
+    version: CACHE_VERSION,
   });
 
-  return hash(value);
+  const identity = hash(value);
+  directories[identity] = getCacheDirectory(cwd);
+
+  return identity;
 }
 
 function getCache(identity: string) {
@@ -31,7 +55,7 @@ function getCache(identity: string) {
 
   caches[identity] = fileEntryCache.create(
     identity,
-    path.resolve(process.cwd(), './node_modules/.cache/unimported'),
+    directories[identity] ?? getCacheDirectory(process.cwd()),
   );
 
   return caches[identity];
@@ -103,10 +127,10 @@ export function storeCache(): void {
   }
 }
 
-export function purgeCache(): void {
+export function purgeCache(cwd = process.cwd()): void {
   log.info('purge cache');
 
-  rmSync(path.resolve(process.cwd(), './node_modules/.cache/unimported'), {
+  rmSync(getCacheDirectory(cwd), {
     recursive: true,
     force: true,
   });
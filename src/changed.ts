@@ -0,0 +1,257 @@
+import path from 'path';
+import simpleGit from 'simple-git';
+import * as fs from './fs';
+import { ProjectError } from './errors';
+import { FileStats, parseCode, TraverseConfig } from './traverse';
+import { isClean, ProcessedResult } from './process';
+import type { Context, PackageJson } from './index';
+import type { EntryTraversal, Report } from './analyze';
+
+export interface Changes {
+  // absolute paths of the files that are added or modified since the ref,
+  // including uncommitted and untracked files
+  changed: string[];
+  // absolute paths of the files that are deleted since the ref
+  deleted: string[];
+  // the contents of the modified and deleted files, as they were at the ref
+  previous: Map<string, string>;
+}
+
+/**
+ * List the files that changed since the merge base of the ref and HEAD, like
+ * the diff of a pull request
+ */
+export async function getChanges(ref: string, cwd: string): Promise<Changes> {
+  const git = simpleGit({ baseDir: cwd });
+  const changes: Changes = { changed: [], deleted: [], previous: new Map() };
+
+  try {
+    const base = (await git.raw(['merge-base', ref, 'HEAD'])).trim();
+    const diff = await git.raw([
+      'diff',
+      '--name-status',
+      '--no-renames',
+      '--relative',
+      base,
+    ]);
+    const untracked = await git.raw([
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+    ]);
+
+    for (const line of diff.split('\n').filter(Boolean)) {
+      const [status, file] = line.split('\t');
+      const absolute = path.join(cwd, file).replace(/\\/g, '/');
+
+      if (status !== 'A') {
+        changes.previous.set(
+          absolute,
+          await git.raw(['show', `${base}:./${file}`]),
+        );
+      }
+
+      if (status === 'D') {
+        changes.deleted.push(absolute);
+      } else {
+        changes.changed.push(absolute);
+      }
+    }
+
+    for (const file of untracked.split('\n').filter(Boolean)) {
+      changes.changed.push(path.join(cwd, file).replace(/\\/g, '/'));
+    }
+  } catch (error) {
+    throw new ProjectError(
+      `could not list the changes since ${ref}: ${error.message}`,
+      cwd,
+    );
+  }
+
+  return changes;
+}
+
+// the entry whose graph holds the file, as the aliases can differ per entry
+function getTraverseConfig(
+  traversals: EntryTraversal[],
+  file: string,
+): TraverseConfig | undefined {
+  const traversal =
+    traversals.find((x) => x.result.files.has(file)) || traversals[0];
+  return traversal?.config;
+}
+
+async function parseFile(
+  file: string,
+  code: string,
+  config?: TraverseConfig,
+): Promise<FileStats | null> {
+  // the previous revision might not parse, or use other aliases
+  return config ? parseCode(file, code, config).catch(() => null) : null;
+}
+
+// dependencies that are declared now, but weren't at the ref
+function getAddedDependencies(
+  context: Context,
+  changes: Changes,
+  key: 'dependencies' | 'devDependencies',
+): Set<string> {
+  const file = path.join(context.cwd, 'package.json').replace(/\\/g, '/');
+
+  if (!changes.changed.includes(file)) {
+    return new Set();
+  }
+
+  let previous: PackageJson | null = null;
+  try {
+    previous = JSON.parse(changes.previous.get(file) || 'null');
+  } catch {}
+
+  return new Set(
+    Object.keys(context[key]).filter((name) => !previous?.[key]?.[name]),
+  );
+}
+
+/**
+ * Only keep the findings that involve the changes: files that are changed,
+ * or that became unimported because their importers changed, unresolved
+ * imports and missing dependencies that are new in changed files, and
+ * dependencies whose last usage was removed, or that were added.
+ */
+export async function filterChanges(
+  report: Report,
+  traversals: EntryTraversal[],
+  changes: Changes,
+): Promise<ProcessedResult> {
+  const { context, result } = report;
+  const relative = (file: string) =>
+    path.relative(context.cwd, file).replace(/\\/g, '/');
+  const absolute = (file: string) =>
+    path.join(context.cwd, file).replace(/\\/g, '/');
+
+  const changed = new Set(changes.changed.map(relative));
+  const previous = new Map<string, FileStats>();
+
+  for (const [file, code] of changes.previous) {
+    const stats = await parseFile(
+      file,
+      code,
+      getTraverseConfig(traversals, file),
+    );
+
+    if (stats) {
+      previous.set(relative(file), stats);
+    }
+  }
+
+  const previousImports = Array.from(previous.values()).flatMap(
+    (x) => x.imports,
+  );
+  const previouslyImported = new Set(
+    previousImports
+      .filter((x) => x.type === 'source_file')
+      .map((x) => relative(x.path)),
+  );
+  const previousModules = new Set(
+    previousImports.flatMap((x) =>
+      x.type === 'node_module' || x.type === 'missing_module' ? [x.name] : [],
+    ),
+  );
+
+  // files that are imported only by other unimported files become unimported
+  // along with them
+  const unimported = new Set(result.unimported);
+  const orphans = new Set(
+    result.unimported.filter(
+      (x) => changed.has(x) || previouslyImported.has(x),
+    ),
+  );
+  const queue = Array.from(orphans);
+
+  while (queue.length) {
+    const file = absolute(queue.shift() as string);
+    const stats = await parseFile(
+      file,
+      await fs.readText(file),
+      getTraverseConfig(traversals, file),
+    );
+
+    for (const x of stats?.imports || []) {
+      const imported = x.type === 'source_file' ? relative(x.path) : '';
+
+      if (unimported.has(imported) && !orphans.has(imported)) {
+        orphans.add(imported);
+        queue.push(imported);
+      }
+    }
+  }
+
+  // the import existed at the ref, and isn't new
+  const isNew = (file: string, specifier: string) =>
+    !previous
+      .get(file)
+      ?.imports.some((x) =>
+        x.type === 'unresolved'
+          ? x.path === specifier
+          : x.type === 'missing_module' && x.name === specifier,
+      );
+
+  const addedDependencies = getAddedDependencies(
+    context,
+    changes,
+    'dependencies',
+  );
+  const addedDevDependencies = getAddedDependencies(
+    context,
+    changes,
+    'devDependencies',
+  );
+
+  // used in changed files now
+  const usedInChanges = new Set(
+    Array.from(report.graph.files.values())
+      .filter((x) => changed.has(relative(x.path)))
+      .flatMap((x) => x.imports)
+      .flatMap((x) => (x.type === 'node_module' ? [x.name] : [])),
+  );
+
+  const next: Omit<ProcessedResult, 'clean'> = {
+    ...result,
+    unimported: result.unimported.filter((x) => orphans.has(x)),
+    unresolved: result.unresolved
+      .map((x) => ({
+        ...x,
+        importers: x.importers.filter(
+          (loc) => changed.has(loc.file) && isNew(loc.file, x.path),
+        ),
+      }))
+      .filter((x) => x.importers.length),
+    missing: result.missing
+      .map((x) => ({
+        ...x,
+        importers: x.importers.filter(
+          (loc) => changed.has(loc.file) && isNew(loc.file, x.name),
+        ),
+      }))
+      .filter((x) => x.importers.length),
+    unused: result.unused.filter(
+      (x) => previousModules.has(x) || addedDependencies.has(x),
+    ),
+    unusedExports: result.unusedExports?.filter(
+      (x) => changed.has(x.loc.file) || previouslyImported.has(x.loc.file),
+    ),
+    unusedDevDependencies: result.unusedDevDependencies?.filter(
+      (x) => previousModules.has(x) || addedDevDependencies.has(x),
+    ),
+    productionDevDependencies: result.productionDevDependencies?.filter(
+      (x) => usedInChanges.has(x) || addedDevDependencies.has(x),
+    ),
+    devOnlyDependencies: result.devOnlyDependencies?.filter(
+      (x) => previousModules.has(x) || addedDependencies.has(x),
+    ),
+    builtins: result.builtins?.filter((x) => changed.has(x.file)),
+    widened: result.widened?.filter((x) => changed.has(x.file)),
+  };
+
+  return { ...next, clean: isClean(next) };
+}
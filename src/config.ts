@@ -1,11 +1,21 @@
 import { ProcessedResult } from './process';
-import { readJson, writeJson } from './fs';
+import { readJson, readText, writeJson } from './fs';
 import { Context } from './index';
 import glob from 'glob';
+import path from 'path';
 import { promisify } from 'util';
 import { ensureArray } from './ensureArray';
 import { MapLike } from 'typescript';
-import { findEntryFiles, getProjectType } from './meta';
+import {
+  findEntryFiles,
+  findExportedFiles,
+  getProjectType,
+  getTsConfigFiles,
+} from './meta';
+import { getToolAliases, TOOL_CONFIG_FILES } from './aliases';
+import { loadPlugins, Plugin, resolvePlugin } from './plugins';
+import { ConfigError } from './errors';
+import json5 from 'json5';
 
 const globAsync = promisify(glob);
 
@@ -30,37 +40,69 @@ export interface UnimportedConfig {
         extend?: { aliases?: MapLike<string[]>; extensions?: string[] };
       }
   )[];
+  devEntry?: string[];
+  conditions?: string[];
   ignorePatterns?: string[];
   ignoreUnresolved: string[];
   ignoreUnimported: string[];
   ignoreUnused: string[];
+  ignoreMissing?: string[];
   moduleDirectory?: string[];
   rootDir?: string;
   extensions?: string[];
   aliases?: MapLike<string[]>;
+  plugins?: string[];
 }
 
 export interface Config {
   preset?: string;
   flow?: boolean;
   entryFiles: EntryConfig[];
+  devEntry: string[];
+  conditions: string[];
+  // aliases from the configs of webpack, vite, babel and jest, with absolute paths
+  toolAliases: MapLike<string[]>;
   ignorePatterns: string[];
   ignoreUnresolved: string[];
   ignoreUnimported: string[];
+  // the ignoreUnimported entries before the globs are expanded
+  ignoreUnimportedPatterns: string[];
   ignoreUnused: string[];
+  ignoreMissing: string[];
   moduleDirectory?: string[];
   rootDir?: string;
   extensions: string[];
+  plugins: Plugin[];
+  // the files that the config and the resolver are read from, with absolute
+  // paths, changes to these restart the analysis in watch mode
+  configFiles: string[];
 }
 
+// test and tooling files, used as entry points for devDependencies
+const DEFAULT_DEV_ENTRY = [
+  '**/*.{test,tests,spec,stories}.{js,jsx,ts,tsx}',
+  '**/{__tests__,__mocks__}/**/*.{js,jsx,ts,tsx}',
+  '{test,tests}/**/*.{js,jsx,ts,tsx}',
+  '*.config.{js,cjs,mjs,ts}',
+  '.*rc.{js,cjs}',
+];
+
+// condition names for the exports and imports of package.json, `default` is
+// always active
+const DEFAULT_CONDITIONS = ['import', 'require', 'node'];
+
 export async function expandGlob(
   patterns: string | string[],
+  ignore: string[] = [],
+  cwd = process.cwd(),
 ): Promise<string[]> {
   const set = new Set<string>();
 
   for (const pattern of ensureArray(patterns)) {
     const paths = await globAsync(pattern, {
+      cwd,
       realpath: false,
+      ignore,
     });
 
     for (const path of paths) {
@@ -71,28 +113,54 @@ export async function expandGlob(
   return Array.from(set);
 }
 
-let cachedConfig;
-
-export function __clearCachedConfig() {
-  cachedConfig = undefined;
-}
+async function readConfigFile(cwd: string): Promise<Partial<UnimportedConfig>> {
+  const text = await readText(CONFIG_FILE, cwd);
 
-export async function getConfig(): Promise<Config> {
-  if (cachedConfig) {
-    return cachedConfig;
+  try {
+    return text ? json5.parse(text) : {};
+  } catch (error) {
+    throw new ConfigError(
+      `${CONFIG_FILE} does not contain valid json: ${error.message}`,
+      path.join(cwd, CONFIG_FILE),
+    );
   }
+}
 
-  const configFile: Partial<UnimportedConfig> =
-    (await readJson(CONFIG_FILE)) || {};
+/**
+ * Read the config of the project at cwd. The overrides take precedence over
+ * the settings in .unimportedrc.json. The config isn't cached, so that every
+ * analysis picks up the changes to the config files.
+ */
+export async function getConfig(
+  cwd = process.cwd(),
+  overrides?: Partial<UnimportedConfig>,
+): Promise<Config> {
+  const configFile: Partial<UnimportedConfig> = {
+    ...(await readConfigFile(cwd)),
+    ...overrides,
+  };
 
-  const preset = await getProjectType();
+  const preset = await getProjectType(cwd);
+  const plugins = loadPlugins(configFile.plugins || [], cwd);
+  const configExtensions = configFile.extensions || [
+    '.js',
+    '.jsx',
+    '.ts',
+    '.tsx',
+  ];
 
   const config: Config = {
     preset,
     rootDir: configFile.rootDir,
     ignoreUnresolved: configFile.ignoreUnresolved || [],
-    ignoreUnimported: await expandGlob(configFile.ignoreUnimported || []),
+    ignoreUnimported: await expandGlob(
+      configFile.ignoreUnimported || [],
+      [],
+      cwd,
+    ),
+    ignoreUnimportedPatterns: configFile.ignoreUnimported || [],
     ignoreUnused: configFile.ignoreUnused || [],
+    ignoreMissing: configFile.ignoreMissing || [],
     ignorePatterns:
       configFile.ignorePatterns ||
       ([
@@ -109,7 +177,27 @@ export async function getConfig(): Promise<Config> {
           : []),
       ].filter(Boolean) as string[]),
     entryFiles: [],
-    extensions: configFile.extensions || ['.js', '.jsx', '.ts', '.tsx'],
+    devEntry: configFile.devEntry || DEFAULT_DEV_ENTRY,
+    conditions: configFile.conditions || DEFAULT_CONDITIONS,
+    toolAliases: await getToolAliases(cwd),
+    // files handled by plugins are traversed like the built-in file types
+    extensions: [
+      ...configExtensions,
+      ...plugins
+        .flatMap((plugin) => plugin.extensions)
+        .filter((x) => !configExtensions.includes(x)),
+    ],
+    plugins,
+    configFiles: [
+      ...[
+        CONFIG_FILE,
+        'package.json',
+        'pnpm-workspace.yaml',
+        ...TOOL_CONFIG_FILES,
+      ].map((file) => path.join(cwd, file)),
+      ...(await getTsConfigFiles(cwd)),
+      ...(configFile.plugins || []).map((file) => resolvePlugin(file, cwd)),
+    ],
   };
 
   const aliases = configFile.aliases || {};
@@ -118,7 +206,7 @@ export async function getConfig(): Promise<Config> {
   if (configFile.entry) {
     for (const entry of configFile.entry) {
       if (typeof entry === 'string') {
-        for (const file of await expandGlob(entry)) {
+        for (const file of await expandGlob(entry, [], cwd)) {
           config.entryFiles.push({
             file,
             aliases,
@@ -138,7 +226,7 @@ export async function getConfig(): Promise<Config> {
           ? [...entry.extend.extensions, ...extensions]
           : extensions;
 
-        for (const file of await expandGlob(entry.file)) {
+        for (const file of await expandGlob(entry.file, [], cwd)) {
           config.entryFiles.push({
             file,
             label: entry.label,
@@ -150,24 +238,85 @@ export async function getConfig(): Promise<Config> {
     }
   }
 
+  // files exposed by the exports map of package.json can be imported by the
+  // consumers of the package, and are thereby entry files as well
+  const exportedFiles = await findExportedFiles(
+    config.conditions,
+    extensions,
+    cwd,
+  );
+
   // try to resolve entry files based on conventions
   if (!config.entryFiles.length) {
-    const entryFiles = await findEntryFiles(preset, extensions);
+    const entryFiles = await findEntryFiles(preset, extensions, cwd).catch(
+      (error) => {
+        // a package can expose its entry points through the exports map only
+        if (exportedFiles.length) {
+          return [];
+        }
+
+        throw error;
+      },
+    );
 
     for (const file of entryFiles) {
+      // config files, like `next.config.mjs`, can use other extensions than
+      // the source files
+      const extension = path.extname(file);
+
       config.entryFiles.push({
         file,
         aliases,
-        extensions,
+        extensions: extensions.includes(extension)
+          ? extensions
+          : [...extensions, extension],
       });
     }
   }
 
-  cachedConfig = config;
+  // the exported files are added on top of the source and main entry files,
+  // as the exports often point to the build output
+  for (const file of exportedFiles) {
+    const exists = config.entryFiles.some(
+      (entry) => path.resolve(cwd, entry.file) === path.resolve(cwd, file),
+    );
+
+    if (!exists) {
+      config.entryFiles.push({
+        file,
+        aliases,
+        extensions,
+      });
+    }
+  }
 
   return config;
 }
 
+/**
+ * Expand the devEntry patterns to the test and tooling files that are used to
+ * analyse devDependencies. Production entry files are excluded.
+ */
+export async function getDevEntryFiles(
+  config: Config,
+  cwd = process.cwd(),
+): Promise<EntryConfig[]> {
+  const files = await expandGlob(config.devEntry, ['**/node_modules/**'], cwd);
+  const entryFiles = new Set(
+    config.entryFiles.map((entry) => path.resolve(cwd, entry.file)),
+  );
+
+  const [entry] = config.entryFiles;
+
+  return files
+    .filter((file) => !entryFiles.has(path.resolve(cwd, file)))
+    .map((file) => ({
+      file,
+      aliases: entry?.aliases ?? {},
+      extensions: config.extensions,
+    }));
+}
+
 function sort(arr) {
   const sorted = [...arr];
   sorted.sort();
@@ -178,10 +327,13 @@ function merge(left, right) {
   return sort(Array.from(new Set([...left, ...right])));
 }
 
-export async function writeConfig(config: Partial<Config>) {
-  const current = await readJson(CONFIG_FILE);
+export async function writeConfig(
+  config: Partial<Config>,
+  cwd = process.cwd(),
+) {
+  const current = await readJson(CONFIG_FILE, cwd);
   const next = Object.assign({}, current, config);
-  return await writeJson(CONFIG_FILE, next);
+  return await writeJson(CONFIG_FILE, next, cwd);
 }
 
 export async function updateAllowLists(
@@ -189,10 +341,33 @@ export async function updateAllowLists(
   context: Context,
 ) {
   const cfg = context.config;
+  const stale = files.staleIgnores;
+
+  // entries that no longer match anything are pruned
+  const prune = (entries: string[], staleEntries: string[] = []) =>
+    entries.filter((x) => !staleEntries.includes(x));
 
-  await writeConfig({
-    ignoreUnresolved: merge(cfg.ignoreUnresolved, files.unresolved),
-    ignoreUnused: merge(cfg.ignoreUnused, files.unused),
-    ignoreUnimported: merge(cfg.ignoreUnimported, files.unimported),
-  });
+  await writeConfig(
+    {
+      ignoreUnresolved: merge(
+        prune(cfg.ignoreUnresolved, stale?.ignoreUnresolved),
+        files.unresolved.map((x) => x.path),
+      ),
+      // the patterns are written back, rather than the files they expand to
+      ignoreUnimported: merge(
+        prune(cfg.ignoreUnimportedPatterns, stale?.ignoreUnimported),
+        files.unimported,
+      ),
+      ignoreUnused: merge(prune(cfg.ignoreUnused, stale?.ignoreUnused), [
+        ...files.unused,
+        ...(files.unusedDevDependencies || []),
+        ...(files.devOnlyDependencies || []),
+      ]),
+      ignoreMissing: merge(
+        cfg.ignoreMissing,
+        files.missing.map((x) => x.name),
+      ),
+    },
+    context.cwd,
+  );
 }
@@ -0,0 +1,46 @@
+/**
+ * Base class of the errors that are thrown by `analyze`, these describe a
+ * problem with the project, rather than a bug in unimported.
+ */
+export class UnimportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnimportedError';
+  }
+}
+
+// there's no package.json, or no entry file could be found
+export class ProjectError extends UnimportedError {
+  cwd: string;
+
+  constructor(message: string, cwd: string) {
+    super(message);
+    this.name = 'ProjectError';
+    this.cwd = cwd;
+  }
+}
+
+// .unimportedrc.json is invalid, or lists a plugin that can't be loaded
+export class ConfigError extends UnimportedError {
+  // the config file, or the plugin that's invalid
+  path: string;
+
+  constructor(message: string, path: string) {
+    super(message);
+    this.name = 'ConfigError';
+    this.path = path;
+  }
+}
+
+// a source file can't be parsed, or the imports of it can't be resolved
+export class ParseError extends UnimportedError {
+  path: string;
+  cause: Error;
+
+  constructor(path: string, cause: Error) {
+    super(`failed parsing ${path}: ${cause.message}`);
+    this.name = 'ParseError';
+    this.path = path;
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,90 @@
+import { ImportLocation, TraverseResult } from './traverse';
+
+export interface UnusedExport {
+  name: string;
+  loc: ImportLocation;
+}
+
+/**
+ * Find the exports of the given files, that aren't imported by any of the
+ * traversed files. Exports of entry files are considered to be used.
+ */
+export function findUnusedExports(
+  files: string[],
+  entryFiles: string[],
+  traverseResult: TraverseResult,
+): UnusedExport[] {
+  // files of which all exports are (possibly) used
+  const usedModules = new Set<string>(entryFiles);
+  const usedNames = new Map<string, Set<string>>();
+
+  const use = (file: string, names: string[]): boolean => {
+    if (usedModules.has(file)) {
+      return false;
+    }
+
+    if (names.includes('*')) {
+      usedModules.add(file);
+      return true;
+    }
+
+    const set = usedNames.get(file) || new Set<string>();
+    const size = set.size;
+    names.forEach((name) => set.add(name));
+    usedNames.set(file, set);
+
+    return set.size > size;
+  };
+
+  const reexports: [string, string][] = [];
+
+  for (const [file, stats] of traverseResult.files) {
+    for (const imported of stats.imports) {
+      if (imported.type !== 'source_file') {
+        continue;
+      }
+
+      if (imported.reexport) {
+        reexports.push([file, imported.path]);
+      } else {
+        use(imported.path, imported.names);
+      }
+    }
+  }
+
+  // `export * from './x'` forwards the names that are used from the barrel
+  // file to the target, repeat until nothing changes to support nested barrels.
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [file, target] of reexports) {
+      // default exports are not included in `export *`
+      const names = usedModules.has(file)
+        ? ['*']
+        : Array.from(usedNames.get(file) || []).filter((x) => x !== 'default');
+
+      if (use(target, names)) {
+        changed = true;
+      }
+    }
+  }
+
+  const unused: UnusedExport[] = [];
+
+  for (const file of files) {
+    const stats = traverseResult.files.get(file);
+
+    if (!stats || usedModules.has(file)) {
+      continue;
+    }
+
+    for (const exported of stats.exports || []) {
+      if (!usedNames.get(file)?.has(exported.name)) {
+        unused.push({ name: exported.name, loc: { file, ...exported.loc } });
+      }
+    }
+  }
+
+  return unused;
+}
@@ -0,0 +1,255 @@
+import path from 'path';
+import chalk from 'chalk';
+import * as fs from './fs';
+import { Context } from './index';
+import { log } from './log';
+
+async function isInside(file: string, cwd: string): Promise<boolean> {
+  // use the real path, to not follow symlinks out of the project
+  const realpath = await fs.realpath(file, cwd).catch(() => null);
+
+  if (!realpath) {
+    return false;
+  }
+
+  const relative = path.relative(await fs.realpath(cwd), realpath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Remove the given files, relative to the project root. Files that resolve to
+ * a location outside the project root are never removed. Returns the files
+ * that were removed, or would be removed when running in dry-run mode.
+ */
+export async function removeFiles(
+  files: string[],
+  context: Context,
+): Promise<string[]> {
+  const removed: string[] = [];
+
+  for (const file of files) {
+    if (!(await isInside(file, context.cwd))) {
+      console.warn(
+        chalk.yellowBright(
+          `refusing to remove ${file}, it's outside ${context.cwd}`,
+        ),
+      );
+      continue;
+    }
+
+    if (!context.dryRun) {
+      log.info('remove %s', file);
+      await fs.remove(file, context.cwd);
+    }
+
+    removed.push(file);
+  }
+
+  return removed;
+}
+
+export interface FileChange {
+  path: string;
+  before: string;
+  after: string;
+}
+
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+/**
+ * Compute a line based diff, using the longest common subsequence. This is
+ * meant for small files like package.json, not for large inputs.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // lcs[i][j] holds the length of the lcs of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push({ type: ' ', line: a[i++] });
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      // removals go before insertions, like in other diffs
+      diff.push({ type: '-', line: a[i++] });
+    } else {
+      diff.push({ type: '+', line: b[j++] });
+    }
+  }
+
+  return diff;
+}
+
+interface JsonMember {
+  key: string;
+  // offsets of the key, the value, and the end of the value
+  start: number;
+  value: number;
+  end: number;
+}
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i])) {
+    i++;
+  }
+
+  return i;
+}
+
+function skipString(text: string, i: number): number {
+  for (i++; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '"') {
+      return i + 1;
+    }
+  }
+
+  return i;
+}
+
+function skipValue(text: string, i: number): number {
+  if (text[i] === '"') {
+    return skipString(text, i);
+  }
+
+  if (text[i] !== '{' && text[i] !== '[') {
+    const [literal] = /^[^,}\]\s]*/.exec(text.slice(i)) as RegExpExecArray;
+    return i + literal.length;
+  }
+
+  let depth = 0;
+
+  while (i < text.length) {
+    if (text[i] === '"') {
+      i = skipString(text, i);
+      continue;
+    }
+
+    if (text[i] === '{' || text[i] === '[') {
+      depth++;
+    } else if (text[i] === '}' || text[i] === ']') {
+      depth--;
+
+      if (!depth) {
+        return i + 1;
+      }
+    }
+
+    i++;
+  }
+
+  return i;
+}
+
+// the members of the json object that opens at `open`, and the offset of the
+// closing brace
+function getMembers(
+  text: string,
+  open: number,
+): { members: JsonMember[]; close: number } {
+  const members: JsonMember[] = [];
+  let i = skipWhitespace(text, open + 1);
+
+  while (text[i] === '"') {
+    const start = i;
+    i = skipString(text, i);
+
+    const key = JSON.parse(text.slice(start, i));
+    // skip the colon
+    const value = skipWhitespace(text, skipWhitespace(text, i) + 1);
+    const end = skipValue(text, value);
+    members.push({ key, start, value, end });
+
+    i = skipWhitespace(text, end);
+    if (text[i] === ',') {
+      i = skipWhitespace(text, i + 1);
+    }
+  }
+
+  return { members, close: i };
+}
+
+// remove the members from the object, the text between the remaining members
+// is kept as it was
+function removeMembers(text: string, open: number, keys: string[]): string {
+  const { members, close } = getMembers(text, open);
+  const kept = members.filter((member) => !keys.includes(member.key));
+
+  if (kept.length === members.length) {
+    return text;
+  }
+
+  if (!kept.length) {
+    return `${text.slice(0, open)}{}${text.slice(close + 1)}`;
+  }
+
+  const last = members[members.length - 1];
+  let object = text.slice(open, members[0].start);
+
+  kept.forEach((member, idx) => {
+    object += text.slice(member.start, member.end);
+
+    // use the separator that followed the member, like `,\n    `
+    if (idx < kept.length - 1) {
+      const next = members[members.indexOf(member) + 1];
+      object += text.slice(member.end, next.start);
+    }
+  });
+
+  object += text.slice(last.end, close + 1);
+
+  return text.slice(0, open) + object + text.slice(close + 1);
+}
+
+/**
+ * Remove the given dependencies from package.json. Only the entries of the
+ * removed dependencies are taken out of the text, the rest of the file is
+ * kept as is.
+ */
+export async function removeDependencies(
+  names: string[],
+  context: Context,
+): Promise<FileChange> {
+  const file = 'package.json';
+  const before = await fs.readText(file, context.cwd);
+  const root = skipWhitespace(before, 0);
+  const dependencies = getMembers(before, root).members.find(
+    (member) => member.key === 'dependencies',
+  );
+
+  const after =
+    names.length && dependencies && before[dependencies.value] === '{'
+      ? removeMembers(before, dependencies.value, names)
+      : before;
+
+  if (!context.dryRun && after !== before) {
+    log.info('update %s', file);
+    await fs.writeText(file, after, context.cwd);
+  }
+
+  return { path: file, before, after };
+}
@@ -3,11 +3,14 @@ import { join } from 'path';
 import glob, { IOptions as GlobOptions } from 'glob';
 import util from 'util';
 import json5 from 'json5';
+import { log } from './log';
 
 const globAsync = util.promisify(glob);
 const readFileAsync = util.promisify(fs.readFile);
 const writeFileAsync = util.promisify(fs.writeFile);
 const existsAsync = util.promisify(fs.exists);
+const unlinkAsync = util.promisify(fs.unlink);
+const realpathAsync = util.promisify(fs.realpath);
 
 export async function exists(path: string, cwd = ''): Promise<boolean> {
   return await existsAsync(join(cwd, path));
@@ -33,6 +36,14 @@ export async function writeText(
   }
 }
 
+export async function remove(path: string, cwd = ''): Promise<void> {
+  return await unlinkAsync(join(cwd, path));
+}
+
+export async function realpath(path: string, cwd = ''): Promise<string> {
+  return await realpathAsync(join(cwd, path));
+}
+
 export async function readJson<T extends any>(
   path: string,
   cwd = '.',
@@ -41,7 +52,7 @@ export async function readJson<T extends any>(
     const text = await readText(path, cwd);
     return text ? json5.parse(text) : null;
   } catch (e) {
-    console.error('\nfile does not contain valid json:', path, 'error: ', e);
+    log.warn(`file does not contain valid json: ${path}, error: ${e.message}`);
     return null;
   }
 }
@@ -0,0 +1,268 @@
+import path from 'path';
+import { AST_NODE_TYPES, TSESTree } from '@typescript-eslint/typescript-estree';
+import { MapLike } from 'typescript';
+import * as fs from './fs';
+
+// the part of the import that can be stored in the cache, the files that it
+// matches are listed on every run, as files can be added without touching the
+// importing file
+export type GlobImport =
+  | {
+      // import.meta.glob('./modules/*.ts')
+      type: 'glob';
+      patterns: string[];
+      names: string[];
+      // true for dynamic imports with expressions, that are widened to a glob
+      dynamic?: boolean;
+    }
+  | {
+      // require.context('./icons', true, /\.svg$/)
+      type: 'context';
+      directory: string;
+      recursive: boolean;
+      // regular expressions don't survive serialization to the cache
+      filter: { pattern: string; flags: string };
+    };
+
+function getName(node: TSESTree.Node): string | undefined {
+  if (node.type === AST_NODE_TYPES.Identifier) {
+    return node.name;
+  }
+
+  if (node.type === AST_NODE_TYPES.Literal && typeof node.value === 'string') {
+    return node.value;
+  }
+}
+
+function getString(node?: TSESTree.Node): string | undefined {
+  if (node?.type === AST_NODE_TYPES.Literal) {
+    return typeof node.value === 'string' ? node.value : undefined;
+  }
+
+  if (
+    node?.type === AST_NODE_TYPES.TemplateLiteral &&
+    !node.expressions.length
+  ) {
+    return node.quasis[0].value.cooked ?? undefined;
+  }
+}
+
+function getGlobPatterns(node?: TSESTree.Node): string[] | null {
+  const pattern = getString(node);
+
+  if (pattern !== undefined) {
+    return [pattern];
+  }
+
+  if (node?.type !== AST_NODE_TYPES.ArrayExpression) {
+    return null;
+  }
+
+  const patterns = node.elements.map((x) => getString(x || undefined));
+  return patterns.every((x) => x !== undefined) ? (patterns as string[]) : null;
+}
+
+// import.meta.glob('./x/*.ts', { import: 'setup', eager: true })
+function getViteGlob(node: TSESTree.CallExpression): GlobImport | null {
+  const [patternsArg, options] = node.arguments;
+  const patterns = getGlobPatterns(patternsArg);
+
+  if (!patterns) {
+    return null;
+  }
+
+  let names = ['*'];
+
+  if (options?.type === AST_NODE_TYPES.ObjectExpression) {
+    for (const property of options.properties) {
+      if (
+        property.type === AST_NODE_TYPES.Property &&
+        getName(property.key) === 'import'
+      ) {
+        const name = getString(property.value);
+        names = name && name !== '*' ? [name] : ['*'];
+      }
+    }
+  }
+
+  return { type: 'glob', patterns, names };
+}
+
+// require.context('./x', true, /\.js$/), the defaults are those of webpack
+function getRequireContext(node: TSESTree.CallExpression): GlobImport | null {
+  const [directoryArg, recursiveArg, filterArg] = node.arguments;
+  const directory = getString(directoryArg);
+
+  if (directory === undefined) {
+    return null;
+  }
+
+  let recursive = true;
+  if (recursiveArg) {
+    if (
+      recursiveArg.type !== AST_NODE_TYPES.Literal ||
+      typeof recursiveArg.value !== 'boolean'
+    ) {
+      return null;
+    }
+    recursive = recursiveArg.value;
+  }
+
+  let filter = { pattern: '^\\.\\/.*$', flags: '' };
+  if (filterArg) {
+    if (filterArg.type !== AST_NODE_TYPES.Literal || !('regex' in filterArg)) {
+      return null;
+    }
+    filter = filterArg.regex;
+  }
+
+  return { type: 'context', directory, recursive, filter };
+}
+
+/**
+ * Recognize `import.meta.glob` and `require.context` calls, when their
+ * arguments can be evaluated statically
+ */
+export function getGlobImport(
+  node: TSESTree.CallExpression,
+): GlobImport | null {
+  const { callee } = node;
+
+  if (callee.type !== AST_NODE_TYPES.MemberExpression) {
+    return null;
+  }
+
+  const { object } = callee;
+  const property = getName(callee.property);
+
+  if (
+    object.type === AST_NODE_TYPES.MetaProperty &&
+    object.meta.name === 'import' &&
+    object.property.name === 'meta' &&
+    (property === 'glob' || property === 'globEager')
+  ) {
+    return getViteGlob(node);
+  }
+
+  if (
+    object.type === AST_NODE_TYPES.Identifier &&
+    object.name === 'require' &&
+    property === 'context'
+  ) {
+    return getRequireContext(node);
+  }
+
+  return null;
+}
+
+function getPatternParts(node: TSESTree.Node): string[] {
+  switch (node.type) {
+    case AST_NODE_TYPES.Literal:
+      return [typeof node.value === 'string' ? node.value : '*'];
+
+    case AST_NODE_TYPES.TemplateLiteral:
+      return node.quasis.flatMap((quasi, idx) => [
+        ...(idx ? ['*'] : []),
+        quasi.value.cooked ?? '*',
+      ]);
+
+    case AST_NODE_TYPES.BinaryExpression:
+      return node.operator === '+'
+        ? [...getPatternParts(node.left), ...getPatternParts(node.right)]
+        : ['*'];
+
+    default:
+      return ['*'];
+  }
+}
+
+/**
+ * Widen the path of a dynamic import to a glob, by replacing the expressions
+ * by wildcards. `./locales/${lang}.json` and `'./plugins/' + name` become
+ * `./locales/*.json` and `./plugins/*`. Only relative paths can be widened.
+ */
+export function getDynamicPattern(node: TSESTree.Node): string | null {
+  const pattern = getPatternParts(node).join('').replace(/\*+/g, '*');
+
+  if (!pattern.includes('*')) {
+    return null;
+  }
+
+  return pattern.startsWith('./') || pattern.startsWith('../') ? pattern : null;
+}
+
+// `./x` is relative to the importing file, `/x` to the project root, and
+// aliases, like `@/x`, are replaced by their target
+function resolvePattern(
+  pattern: string,
+  cwd: string,
+  root: string,
+  aliases: MapLike<string[]>,
+): string[] {
+  if (pattern.startsWith('./') || pattern.startsWith('../')) {
+    return [path.resolve(cwd, pattern)];
+  }
+
+  if (pattern.startsWith('/')) {
+    return [path.join(root, pattern)];
+  }
+
+  const alias = Object.keys(aliases).find((x) => pattern.startsWith(x));
+
+  return alias
+    ? aliases[alias].map((x) => path.resolve(cwd, pattern.replace(alias, x)))
+    : [];
+}
+
+/**
+ * List the absolute paths of the files that are matched by a glob import
+ */
+export async function expandGlobImport(
+  glob: GlobImport,
+  cwd: string,
+  root: string,
+  aliases: MapLike<string[]>,
+): Promise<string[]> {
+  if (glob.type === 'context') {
+    const directory = path.resolve(cwd, glob.directory);
+    const filter = new RegExp(glob.filter.pattern, glob.filter.flags);
+    const files = await fs.list(glob.recursive ? '**/*' : '*', directory, {
+      nodir: true,
+      realpath: false,
+      ignore: ['**/node_modules/**'],
+    });
+
+    return files
+      .filter((file) => filter.test(`./${file}`))
+      .map((file) => path.join(directory, file).replace(/\\/g, '/'));
+  }
+
+  const resolve = (x: string) => resolvePattern(x, cwd, root, aliases);
+
+  // negations can also be plain globs, like `!**/bar.js`
+  const ignore = glob.patterns
+    .filter((x) => x.startsWith('!'))
+    .map((x) => x.substr(1))
+    .flatMap((x) => (x.startsWith('**/') ? [x] : resolve(x)));
+
+  const files = new Set<string>();
+
+  for (const pattern of glob.patterns) {
+    if (pattern.startsWith('!')) {
+      continue;
+    }
+
+    for (const absolute of resolve(pattern)) {
+      const matches = await fs.list(absolute, cwd, {
+        nodir: true,
+        realpath: false,
+        absolute: true,
+        ignore: ['**/node_modules/**', ...ignore],
+      });
+
+      matches.forEach((file) => files.add(file.replace(/\\/g, '/')));
+    }
+  }
+
+  return Array.from(files);
+}
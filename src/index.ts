@@ -1,39 +1,49 @@
-import simpleGit from 'simple-git';
-
-import * as fs from './fs';
-import readPkgUp from 'read-pkg-up';
-
-import path, { join } from 'path';
+import path from 'path';
 import ora from 'ora';
-import { printResults } from './print';
+import {
+  printImportChains,
+  printRemovedDependencies,
+  printRemovedFiles,
+  printResultDiff,
+  printResults,
+  printWarnings,
+  printWorkspaceResults,
+  WorkspaceResult,
+} from './print';
 import * as meta from './meta';
-import { getResultObject, traverse, TraverseConfig } from './traverse';
+import { FileStats } from './traverse';
 import chalk from 'chalk';
-import { readJson } from './fs';
 import yargs, { Arguments } from 'yargs';
 import { CompilerOptions } from 'typescript';
-import { processResults } from './process';
-import {
-  getConfig,
-  Config,
-  updateAllowLists,
-  writeConfig,
-  EntryConfig,
-} from './config';
-import {
-  getCacheIdentity,
-  InvalidCacheError,
-  purgeCache,
-  storeCache,
-} from './cache';
+import { diffResults, processResults } from './process';
+import { getConfig, Config, updateAllowLists, writeConfig } from './config';
+import { purgeCache, storeCache } from './cache';
 import { log } from './log';
+import { findImportChains } from './why';
+import { removeDependencies, removeFiles } from './fix';
+import { SubpathMap } from './subpath';
+import { getWorkspaces, Workspace } from './workspaces';
+import { analyseWorkspaces, analyze, getProject } from './analyze';
+import { ParseError, UnimportedError } from './errors';
+import { startSession, watchSession } from './watch';
+import { applyBaseline, BASELINE_FILE, writeBaseline } from './baseline';
+
+export { analyze } from './analyze';
+export type { AnalyzeOptions, Report } from './analyze';
+export type { ProcessedResult } from './process';
+export type { TraverseResult, FileStats } from './traverse';
+export {
+  UnimportedError,
+  ProjectError,
+  ConfigError,
+  ParseError,
+} from './errors';
+export type { Plugin, PluginImport } from './plugins';
 
 export interface TsConfig {
+  extends?: string | string[];
   compilerOptions: CompilerOptions;
-}
-
-export interface JsConfig {
-  compilerOptions: CompilerOptions;
+  references?: { path: string }[];
 }
 
 export interface PackageJson {
@@ -46,6 +56,11 @@ export interface PackageJson {
   devDependencies?: { [name: string]: string };
   bundleDependencies?: { [name: string]: string };
   peerDependencies?: { [name: string]: string };
+  exports?: unknown;
+  imports?: SubpathMap;
+  bin?: string | { [name: string]: string };
+  scripts?: { [name: string]: string };
+  workspaces?: string[] | { packages?: string[] };
   meteor?: {
     mainModule?: {
       client: string;
@@ -61,14 +76,34 @@ export interface Context {
   version: string;
   cwd: string;
   dependencies: { [key: string]: string };
+  devDependencies: { [key: string]: string };
   peerDependencies: { [key: string]: string };
+  // the dependencies, devDependencies, peerDependencies and
+  // optionalDependencies of package.json
+  declaredDependencies: { [key: string]: string };
+  // the dependencies and devDependencies whose binaries are run by the
+  // scripts of package.json
+  scriptDependencies: { [key: string]: string };
   flow?: boolean;
   cache?: boolean;
   config: Config;
   moduleDirectory: string[];
   cacheId?: string;
+  format?: ReportFormat;
+  unusedExports?: boolean;
+  checkDevDependencies?: boolean;
+  dryRun?: boolean;
+  reportBuiltins?: boolean;
+  // only the findings that involve the files changed since this git ref
+  changedSince?: string;
+  // compare the findings with .unimported-baseline.json, unless false
+  baseline?: boolean;
+  // the packages of the workspace, when running in workspace mode
+  workspaces?: Workspace[];
 }
 
+export type ReportFormat = 'text' | 'json' | 'sarif';
+
 const oraStub = {
   set text(msg) {
     log.info(msg);
@@ -78,167 +113,316 @@ const oraStub = {
   },
 };
 
-export async function main(args: CliArguments): Promise<void> {
-  const projectPkg = await readPkgUp({ cwd: args.cwd });
-  const unimportedPkg = await readPkgUp({ cwd: __dirname });
+async function mainWorkspaces(
+  args: CliArguments,
+  cwd: string,
+  version: string,
+): Promise<void> {
+  const workspaces = await getWorkspaces(cwd);
+  const selected = args.workspace
+    ? workspaces.filter(
+        (x) =>
+          x.name === args.workspace ||
+          path.relative(cwd, x.dir) === path.normalize(args.workspace || ''),
+      )
+    : workspaces;
+
+  const exit = (message: string) => {
+    console.error(chalk.redBright(message));
+    process.exit(1);
+  };
+
+  if (
+    args.init ||
+    args.fix ||
+    args.fixDeps ||
+    args.why ||
+    args.watch ||
+    args.changedSince
+  ) {
+    return exit(
+      'init, why, --watch, --fix, --fix-deps and --changed-since are not supported in workspace mode, run them from the package directory instead',
+    );
+  }
+
+  if (!workspaces.length) {
+    return exit(
+      'could not find any workspaces in package.json or pnpm-workspace.yaml',
+    );
+  }
+
+  if (!selected.length) {
+    return exit(`could not find workspace ${args.workspace}`);
+  }
+
+  const analyses = await analyseWorkspaces(
+    workspaces,
+    // the baseline is written from all findings, not only the new ones
+    { ...args, cwd, baseline: args.writeBaseline ? false : args.baseline },
+    version,
+  );
+
+  // files and exports can be used by other packages
+  const files = new Map<string, FileStats>();
+  for (const { traverseResult } of analyses) {
+    traverseResult.files.forEach((stats, file) => files.set(file, stats));
+  }
+
+  const results: WorkspaceResult[] = [];
+
+  for (const analysis of analyses) {
+    if (!selected.includes(analysis.workspace)) {
+      continue;
+    }
+
+    const { workspace, context } = analysis;
+
+    const result = await applyBaseline(
+      await processResults(
+        analysis.files,
+        analysis.traverseResult,
+        context,
+        analysis.devTraverseResult,
+        files,
+      ),
+      context,
+    );
+
+    if (args.update) {
+      await updateAllowLists(result, context);
+    }
+
+    if (args.writeBaseline) {
+      await writeBaseline(result, context.cwd);
+    }
 
-  // equality check to prevent tests from walking up and running on unimported itself
-  if (!projectPkg || !unimportedPkg || unimportedPkg.path === projectPkg.path) {
+    results.push({
+      name: workspace.name,
+      path: path.relative(cwd, workspace.dir).replace(/\\/g, '/'),
+      result,
+      context,
+    });
+  }
+
+  if (args.cache) {
+    storeCache();
+  }
+
+  if (args.update || args.writeBaseline) {
+    process.exit(0);
+    return;
+  }
+
+  printWorkspaceResults(results);
+
+  if (results.some((x) => !x.result.clean)) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Keep the import graph in memory, and print the changes in findings when
+ * files change. Only the changed files are parsed again.
+ */
+async function mainWatch(args: CliArguments, cwd: string): Promise<void> {
+  if (
+    args.fix ||
+    args.fixDeps ||
+    args.update ||
+    args.writeBaseline ||
+    args.changedSince ||
+    args.why
+  ) {
+    console.error(
+      chalk.redBright(
+        'why, --fix, --fix-deps, --update, --write-baseline and --changed-since are not supported with --watch',
+      ),
+    );
+    process.exit(1);
+    return;
+  }
+
+  // the changes are printed as a text diff, there is no structured equivalent
+  if (args.format === 'json' || args.format === 'sarif') {
     console.error(
       chalk.redBright(
-        `could not resolve package.json, are you in a node project?`,
+        `--format ${args.format} is not supported with --watch, use the table format`,
       ),
     );
     process.exit(1);
     return;
   }
 
-  // change the work dir for the process to the project root, this enables us
-  // to run unimported from nested paths within the project
-  process.chdir(path.dirname(projectPkg.path));
-  const cwd = process.cwd();
+  const session = await startSession({ ...args, cwd });
+  printResults(session.report.result, session.report.context);
+
+  if (args.cache) {
+    storeCache();
+  }
+
+  watchSession(session, {
+    onReport(report, previous, changed) {
+      printResultDiff(
+        diffResults(previous.result, report.result),
+        changed,
+        report.context,
+      );
+    },
+    onError: printError,
+  });
+
+  console.log(chalk.grey('\nwatching for changes, press ctrl+c to stop'));
+}
 
-  // clear cache and return
-  if (args.clearCache) {
-    return purgeCache();
+function printError(error: Error): void {
+  if (error instanceof ParseError) {
+    console.error(chalk.redBright(`\nFailed parsing ${error.path}`));
+    console.error(error.cause);
+  } else if (error instanceof UnimportedError) {
+    console.error(chalk.redBright(error.message));
+  } else {
+    console.error(chalk.redBright('something unexpected happened'));
+    console.error(error);
   }
+}
 
+export async function main(args: CliArguments): Promise<void> {
   const spinner =
     log.enabled() || process.env.NODE_ENV === 'test'
       ? oraStub
       : ora('initializing').start();
 
   try {
-    const config = await getConfig();
-    args.flow = config.flow ?? args.flow;
-
-    const [dependencies, peerDependencies] = await Promise.all([
-      meta.getDependencies(cwd),
-      meta.getPeerDependencies(cwd),
-    ]);
-
-    const moduleDirectory = config.moduleDirectory ?? ['node_modules'];
-
-    const context: Context = {
-      version: unimportedPkg.packageJson.version,
-      dependencies,
-      peerDependencies,
-      config,
-      moduleDirectory,
-      ...args,
-      cwd,
-    };
+    const { cwd, version } = await getProject(args.cwd);
+
+    // clear cache and return
+    if (args.clearCache) {
+      spinner.stop();
+      return purgeCache(cwd);
+    }
+
+    if (args.workspaces || args.workspace) {
+      spinner.stop();
+      return await mainWorkspaces(args, cwd, version);
+    }
+
+    if (args.watch) {
+      spinner.stop();
+      return await mainWatch(args, cwd);
+    }
 
     if (args.init) {
-      await writeConfig({
-        ignorePatterns: config.ignorePatterns,
-        ignoreUnimported: config.ignoreUnimported,
-        ignoreUnused: config.ignoreUnused,
-        ignoreUnresolved: config.ignoreUnresolved,
-      });
+      const config = await getConfig(cwd);
+
+      await writeConfig(
+        {
+          ignorePatterns: config.ignorePatterns,
+          ignoreUnimported: config.ignoreUnimported,
+          ignoreUnused: config.ignoreUnused,
+          ignoreUnresolved: config.ignoreUnresolved,
+          ignoreMissing: config.ignoreMissing,
+        },
+        cwd,
+      );
 
       spinner.stop();
       process.exit(0);
+      return;
     }
 
-    // Filter untracked files from git repositories
-    if (args.ignoreUntracked) {
-      const git = simpleGit({ baseDir: context.cwd });
-      const status = await git.status();
-      config.ignorePatterns.push(
-        ...status.not_added.map((file) => path.resolve(file)),
+    if (args.writeBaseline && args.changedSince) {
+      spinner.stop();
+      console.error(
+        chalk.redBright(
+          '--write-baseline is not supported with --changed-since, the baseline needs all findings',
+        ),
       );
+      process.exit(1);
+      return;
     }
 
+    // the baseline is written from all findings, not only the new ones
+    const options = {
+      ...args,
+      cwd,
+      baseline: args.writeBaseline ? false : args.baseline,
+    };
+
     spinner.text = `resolving imports`;
+    const report = await analyze(options);
+    let { context, files, graph, devGraph, result } = report;
+    spinner.stop();
+    printWarnings(report.warnings);
+
+    if (args.why) {
+      const chains = findImportChains(
+        args.why,
+        context.config.entryFiles.map((entry) => entry.file),
+        graph,
+        context.config.extensions,
+        cwd,
+      );
 
-    const traverseResult = getResultObject();
-
-    for (const entry of config.entryFiles) {
-      log.info('start traversal at %s', entry);
-
-      const traverseConfig: TraverseConfig = {
-        extensions: entry.extensions,
-        // resolve full path of aliases
-        aliases: await meta.getAliases(entry),
-        cacheId: args.cache ? getCacheIdentity(entry) : undefined,
-        flow: args.flow,
-        moduleDirectory,
-        preset: config.preset,
-        dependencies,
-      };
-
-      // we can't use the third argument here, to keep feeding to traverseResult
-      // as that would break the import alias overrides. A client-entry file
-      // can resolve `create-api` as `create-api-client.js` while server-entry
-      // would resolve `create-api` to `create-api-server`.
-      const subResult = await traverse(path.resolve(entry.file), traverseConfig)
-        .catch((err) => {
-          if (err instanceof InvalidCacheError) {
-            purgeCache();
-          } else {
-            throw err;
-          }
-        })
-        // Retry once after invalid cache case.
-        .then(() => traverse(path.resolve(entry.file), traverseConfig));
-
-      subResult.files = new Map([...subResult.files].sort());
-
-      // and that's why we need to merge manually
-      subResult.modules.forEach((module) => {
-        traverseResult.modules.add(module);
-      });
-      subResult.unresolved.forEach((unresolved) => {
-        traverseResult.unresolved.add(unresolved);
-      });
-
-      for (const [key, stat] of subResult.files) {
-        const prev = traverseResult.files.get(key);
-
-        if (!prev) {
-          traverseResult.files.set(key, stat);
-          continue;
-        }
+      printImportChains(args.why, chains, context);
+      process.exit(chains.length ? 0 : 1);
+      return;
+    }
 
-        const added = new Set(prev.imports.map((x) => x.path));
+    if (args.fix) {
+      const removed: string[] = [];
 
-        for (const file of stat.imports) {
-          if (!added.has(file.path)) {
-            prev.imports.push(file);
-            added.add(file.path);
-          }
+      // removing files can result in other files becoming unimported, so we
+      // keep removing until we reach a stable result
+      while (result.unimported.length) {
+        const next = await removeFiles(result.unimported, context);
+        removed.push(...next);
+
+        if (args.dryRun || !next.length) {
+          break;
         }
-      }
-    }
 
-    // traverse the file system and get system data
-    spinner.text = 'traverse the file system';
-    const baseUrl = (await fs.exists('src', cwd)) ? join(cwd, 'src') : cwd;
-    const files = await fs.list('**/*', baseUrl, {
-      extensions: config.extensions,
-      ignore: config.ignorePatterns,
-    });
+        ({ context, files, graph, devGraph, result } = await analyze(options));
+      }
 
-    const normalizedFiles = files.map((path) => path.replace(/\\/g, '/'));
+      if (context.format !== 'json' && context.format !== 'sarif') {
+        printRemovedFiles(removed, context);
+      }
+    }
 
-    spinner.text = 'process results';
-    spinner.stop();
+    if (args.fixDeps) {
+      const removed = result.unused;
+      const change = await removeDependencies(removed, context);
 
-    const result = await processResults(
-      normalizedFiles,
-      traverseResult,
-      context,
-    );
+      if (context.format !== 'json' && context.format !== 'sarif') {
+        printRemovedDependencies(removed, change, context);
+      }
 
-    if (args.cache) {
-      storeCache();
+      if (!args.dryRun && args.changedSince) {
+        // the findings are filtered on the changes, which requires the graph
+        ({ context, files, graph, devGraph, result } = await analyze(options));
+      } else if (!args.dryRun) {
+        context.dependencies = await meta.getDependencies(cwd);
+        context.declaredDependencies = await meta.getDeclaredDependencies(cwd);
+        result = await applyBaseline(
+          await processResults(files, graph, context, devGraph),
+          context,
+        );
+      }
     }
 
     if (args.update) {
       await updateAllowLists(result, context);
       // doesn't make sense here to return a error code
       process.exit(0);
+    } else if (args.writeBaseline) {
+      const baseline = await writeBaseline(result, cwd);
+      const count = Object.values(baseline).flat().length;
+
+      console.log(
+        chalk.greenBright(`✓`) +
+          chalk.white(` ${count} findings written to ${BASELINE_FILE}`),
+      );
+      process.exit(0);
     } else {
       printResults(result, context);
     }
@@ -255,14 +439,7 @@ export async function main(args: CliArguments): Promise<void> {
     }
 
     spinner.stop();
-    console.error(
-      chalk.redBright(
-        error.path
-          ? `\nFailed parsing ${error.path}`
-          : 'something unexpected happened',
-      ),
-    );
-    console.error(error);
+    printError(error);
     process.exit(1);
   }
 }
@@ -274,11 +451,25 @@ export interface CliArguments {
   ignoreUntracked: boolean;
   clearCache: boolean;
   cache: boolean;
+  format?: ReportFormat;
+  unusedExports?: boolean;
+  fix?: boolean;
+  fixDeps?: boolean;
+  checkDevDependencies?: boolean;
+  dryRun?: boolean;
+  reportBuiltins?: boolean;
+  why?: string;
+  workspaces?: boolean;
+  workspace?: string;
+  watch?: boolean;
+  changedSince?: string;
+  baseline?: boolean;
+  writeBaseline?: boolean;
   cwd?: string;
 }
 
-if (process.env.NODE_ENV !== 'test') {
-  /* istanbul ignore next */
+/* istanbul ignore next */
+export function cli(): void {
   yargs
     .scriptName('unimported')
     .usage('$0 <cmd> [args]')
@@ -291,6 +482,13 @@ if (process.env.NODE_ENV !== 'test') {
           describe: 'The root directory that unimported should run from.',
         });
 
+        yargs.option('baseline', {
+          type: 'boolean',
+          describe:
+            'Only fail on findings that are not in .unimported-baseline.json. Disable using --no-baseline.',
+          default: true,
+        });
+
         yargs.option('cache', {
           type: 'boolean',
           describe:
@@ -298,17 +496,52 @@ if (process.env.NODE_ENV !== 'test') {
           default: true,
         });
 
+        yargs.option('changed-since', {
+          type: 'string',
+          describe:
+            'Only report findings that involve the files changed since this git ref.',
+        });
+
+        yargs.option('check-dev-dependencies', {
+          type: 'boolean',
+          describe:
+            'Also analyse devDependencies, and report misplaced dependencies.',
+        });
+
         yargs.option('clear-cache', {
           type: 'boolean',
           describe: 'Clears the cache file and then exits.',
         });
 
+        yargs.option('dry-run', {
+          type: 'boolean',
+          describe:
+            'Show what --fix and --fix-deps would change, without changing anything.',
+        });
+
+        yargs.option('fix', {
+          type: 'boolean',
+          describe: 'Remove unimported files.',
+        });
+
+        yargs.option('fix-deps', {
+          type: 'boolean',
+          describe: 'Remove unused dependencies from package.json.',
+        });
+
         yargs.option('flow', {
           alias: 'f',
           type: 'boolean',
           describe: 'Whether to strip flow types, regardless of @flow pragma.',
         });
 
+        yargs.option('format', {
+          type: 'string',
+          choices: ['text', 'json', 'sarif'],
+          describe: 'The format in which the report is printed.',
+          default: 'text',
+        });
+
         yargs.option('ignore-untracked', {
           type: 'boolean',
           describe: 'Ignore files that are not currently tracked by git.',
@@ -320,11 +553,45 @@ if (process.env.NODE_ENV !== 'test') {
           describe: 'Dump default settings to .unimportedrc.json.',
         });
 
+        yargs.option('report-builtins', {
+          type: 'boolean',
+          describe:
+            'List the Node built-in modules that are imported per file.',
+        });
+
+        yargs.option('unused-exports', {
+          type: 'boolean',
+          describe: 'Report exports that are not imported by any file.',
+        });
+
         yargs.option('update', {
           alias: 'u',
           type: 'boolean',
           describe: 'Update the ignore-lists stored in .unimportedrc.json.',
         });
+
+        yargs.option('watch', {
+          type: 'boolean',
+          describe:
+            'Keep running, and report the changes in findings when files change.',
+        });
+
+        yargs.option('write-baseline', {
+          type: 'boolean',
+          describe:
+            'Write the current findings to .unimported-baseline.json and exit.',
+        });
+
+        yargs.option('workspace', {
+          type: 'string',
+          describe:
+            'Only report on the workspace package with this name or path.',
+        });
+
+        yargs.option('workspaces', {
+          type: 'boolean',
+          describe: 'Analyse every package of the npm, yarn or pnpm workspace.',
+        });
       },
       function (argv: Arguments<CliArguments>) {
         return main({
@@ -334,9 +601,67 @@ if (process.env.NODE_ENV !== 'test') {
           ignoreUntracked: argv.ignoreUntracked,
           clearCache: argv.clearCache,
           cache: argv.cache,
+          format: argv.format,
+          unusedExports: argv.unusedExports,
+          fix: argv.fix,
+          fixDeps: argv.fixDeps,
+          checkDevDependencies: argv.checkDevDependencies,
+          dryRun: argv.dryRun,
+          reportBuiltins: argv.reportBuiltins,
+          workspaces: argv.workspaces,
+          workspace: argv.workspace,
+          watch: argv.watch,
+          changedSince: argv.changedSince,
+          baseline: argv.baseline,
+          writeBaseline: argv.writeBaseline,
+          cwd: argv.cwd,
+        });
+      },
+    )
+    .command(
+      'why <target> [cwd]',
+      'explain why a file or dependency is imported',
+      (yargs) => {
+        yargs.positional('target', {
+          type: 'string',
+          describe: 'The file or dependency to explain.',
+        });
+
+        yargs.positional('cwd', {
+          type: 'string',
+          describe: 'The root directory that unimported should run from.',
+        });
+
+        yargs.option('cache', {
+          type: 'boolean',
+          describe:
+            'Whether to use the cache. Disable the cache using --no-cache.',
+          default: true,
+        });
+
+        yargs.option('flow', {
+          alias: 'f',
+          type: 'boolean',
+          describe: 'Whether to strip flow types, regardless of @flow pragma.',
+        });
+      },
+      function (argv: Arguments<CliArguments & { target: string }>) {
+        return main({
+          init: false,
+          update: false,
+          flow: argv.flow,
+          ignoreUntracked: false,
+          clearCache: false,
+          cache: argv.cache,
+          why: argv.target,
           cwd: argv.cwd,
         });
       },
     )
     .help().argv;
 }
+
+// run the cli when executed directly, and not when imported as library
+if (process.env.NODE_ENV !== 'test' && require.main === module) {
+  cli();
+}
@@ -1,9 +1,38 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import chalk from 'chalk';
 import Debug from 'debug';
 
+type WarningHandler = (message: string) => void;
+
+// the warning handler of the analysis that is running, see `withWarnings`
+const warningHandlers = new AsyncLocalStorage<WarningHandler>();
+
 const log = {
   debug: Debug('unimported:debug'),
   info: Debug('unimported'),
   enabled: () => Debug.enabled('unimported'),
+  // warnings are passed to the handler of the analysis, or printed when
+  // there's none
+  warn: (message: string) => {
+    const handler = warningHandlers.getStore();
+
+    if (handler) {
+      handler(message);
+    } else {
+      console.warn(chalk.yellowBright(message));
+    }
+  },
 };
 
-export { log };
+/**
+ * Run the analysis, and pass the warnings that come up to the handler, rather
+ * than printing them
+ */
+function withWarnings<T>(
+  handler: WarningHandler,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return warningHandlers.run(handler, fn);
+}
+
+export { log, withWarnings };
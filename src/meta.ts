@@ -2,44 +2,180 @@ import * as fs from './fs';
 import path, { join } from 'path';
 import { MapLike } from 'typescript';
 import { ensureArray } from './ensureArray';
-import { Context, JsConfig, PackageJson, TsConfig } from './index';
-import { EntryConfig, expandGlob, getConfig } from './config';
+import { Context, PackageJson, TsConfig } from './index';
+import { Config, EntryConfig, expandGlob } from './config';
 import { log } from './log';
 import resolve from 'resolve';
+import { getSubpathTargets, normalizeExports } from './subpath';
+import { ProjectError } from './errors';
 
 interface Aliases {
   [index: string]: string[];
 }
 
-export async function getProjectType(): Promise<string> {
-  if (await fs.exists('.next')) {
+const NEXT_CONFIG_FILES = './next.config.{js,cjs,mjs,ts,mts}';
+
+async function isNextProject(cwd: string): Promise<boolean> {
+  if (await fs.exists('.next', cwd)) {
+    return true;
+  }
+
+  const packageJson = await fs.readJson<PackageJson>('package.json', cwd);
+  if (packageJson?.dependencies?.next || packageJson?.devDependencies?.next) {
+    return true;
+  }
+
+  return (await expandGlob(NEXT_CONFIG_FILES, [], cwd)).length > 0;
+}
+
+export async function getProjectType(cwd: string): Promise<string> {
+  if (await isNextProject(cwd)) {
     return 'next';
   }
 
-  if (await fs.exists('.meteor')) {
+  if (await fs.exists('.meteor', cwd)) {
     return 'meteor';
   }
 
   return 'node';
 }
 
+// compiler options that affect module resolution, with absolute paths
+interface ResolvedCompilerOptions {
+  baseUrl?: string;
+  paths?: MapLike<string[]>;
+  // paths are relative to the config that declares them, when there's no baseUrl
+  pathsBasePath?: string;
+}
+
+interface ResolvedTsConfig {
+  file: string;
+  compilerOptions: ResolvedCompilerOptions;
+  references: string[];
+}
+
+export interface ProjectAliases {
+  // the directory of the referenced project
+  root: string;
+  aliases: MapLike<string[]>;
+}
+
+// `./tsconfig.base`, `../tsconfig.json`, `@tsconfig/node14/tsconfig.json` or `@tsconfig/node14`
+function resolveExtends(extend: string, dir: string): string | null {
+  const candidates = extend.startsWith('.')
+    ? [extend, `${extend}.json`]
+    : [extend, `${extend}.json`, `${extend}/tsconfig.json`];
+
+  for (const candidate of candidates) {
+    try {
+      return resolve.sync(candidate, { basedir: dir, extensions: ['.json'] });
+    } catch {}
+  }
+
+  log.info('unable to resolve %s from %s', extend, dir);
+  return null;
+}
+
+/**
+ * Read a tsconfig or jsconfig file, and merge the compiler options of the
+ * configs that it extends, like the compiler does.
+ */
+async function readTsConfig(
+  file: string,
+  seen = new Set<string>(),
+): Promise<ResolvedTsConfig | null> {
+  if (seen.has(file)) {
+    return null;
+  }
+
+  seen.add(file);
+
+  const dir = path.dirname(file);
+  const tsconfig = await fs.readJson<TsConfig>(path.basename(file), dir);
+
+  if (!tsconfig) {
+    return null;
+  }
+
+  const compilerOptions: ResolvedCompilerOptions = {};
+
+  // later entries in the extends array override the earlier ones
+  for (const extend of ensureArray(tsconfig.extends || [])) {
+    const extendFile = resolveExtends(extend, dir);
+    const base = extendFile ? await readTsConfig(extendFile, seen) : null;
+    Object.assign(compilerOptions, base?.compilerOptions);
+  }
+
+  const { baseUrl, paths } = tsconfig.compilerOptions || {};
+
+  if (baseUrl) {
+    compilerOptions.baseUrl = path.resolve(dir, baseUrl);
+  }
+
+  if (paths) {
+    compilerOptions.paths = paths;
+    compilerOptions.pathsBasePath = dir;
+  }
+
+  return {
+    file,
+    compilerOptions,
+    references: (tsconfig.references || []).map((reference) => {
+      const target = path.resolve(dir, reference.path);
+      return target.endsWith('.json') ? target : join(target, 'tsconfig.json');
+    }),
+  };
+}
+
+/**
+ * The tsconfig and jsconfig files that affect module resolution, including the
+ * configs that they extend and the projects that they reference
+ */
+export async function getTsConfigFiles(cwd: string): Promise<string[]> {
+  const seen = new Set<string>();
+  const queue = ['tsconfig.json', 'jsconfig.json'].map((x) =>
+    path.resolve(cwd, x),
+  );
+
+  while (queue.length) {
+    const file = queue.shift() as string;
+
+    if (!seen.has(file)) {
+      const tsconfig = await readTsConfig(file, seen);
+      queue.push(...(tsconfig?.references || []));
+    }
+  }
+
+  return Array.from(seen);
+}
+
+function getPathAliases(tsconfig: ResolvedTsConfig | null): Aliases {
+  const { baseUrl, paths, pathsBasePath } = tsconfig?.compilerOptions || {};
+
+  if (!paths) {
+    return {};
+  }
+
+  return normalizeAliases(baseUrl || pathsBasePath || '.', paths);
+}
+
 export async function getAliases(
   entryFile: EntryConfig,
+  cwd: string,
+  config: Config,
 ): Promise<MapLike<string[]>> {
   const [packageJson, tsconfig, jsconfig] = await Promise.all([
-    fs.readJson<PackageJson>('package.json'),
-    fs.readJson<TsConfig>('tsconfig.json'),
-    fs.readJson<JsConfig>('jsconfig.json'),
+    fs.readJson<PackageJson>('package.json', cwd),
+    readTsConfig(path.resolve(cwd, 'tsconfig.json')),
+    readTsConfig(path.resolve(cwd, 'jsconfig.json')),
   ]);
 
-  const config = await getConfig();
-
   let aliases: Aliases = {};
 
   let baseUrl =
     config?.rootDir ??
-    tsconfig?.compilerOptions?.baseUrl ??
-    jsconfig?.compilerOptions?.baseUrl ??
+    tsconfig?.compilerOptions.baseUrl ??
+    jsconfig?.compilerOptions.baseUrl ??
     '.';
 
   // '/' doesn't resolve
@@ -47,14 +183,14 @@ export async function getAliases(
     baseUrl = '.';
   }
 
-  const root = path.resolve(baseUrl);
+  const root = path.resolve(cwd, baseUrl);
 
   // add support for root slash import
   aliases['/'] = [`${root}/`];
 
   // add support for mono-repos
   if (packageJson?.repository?.directory) {
-    const root = path.resolve('../');
+    const root = path.resolve(cwd, '../');
     const packages = await fs.list('*/', root, { realpath: false });
     for (const alias of packages) {
       aliases[alias] = [join(root, alias)];
@@ -62,22 +198,13 @@ export async function getAliases(
   }
 
   // add support for typescript path aliases
-  if (tsconfig?.compilerOptions?.paths) {
-    const root = path.resolve(tsconfig.compilerOptions.baseUrl || '.');
-    aliases = Object.assign(
-      aliases,
-      normalizeAliases(root, tsconfig.compilerOptions.paths),
-    );
-  }
+  aliases = Object.assign(aliases, getPathAliases(tsconfig));
 
   // add support for jsconfig path aliases
-  if (jsconfig?.compilerOptions?.paths) {
-    const root = path.resolve(jsconfig.compilerOptions.baseUrl || '.');
-    aliases = Object.assign(
-      aliases,
-      normalizeAliases(root, jsconfig.compilerOptions.paths),
-    );
-  }
+  aliases = Object.assign(aliases, getPathAliases(jsconfig));
+
+  // add support for webpack, vite, babel and jest aliases
+  aliases = Object.assign(aliases, config.toolAliases);
 
   // add support for additional path aliases (in typescript compiler path like setup)
   if (entryFile.aliases) {
@@ -88,6 +215,46 @@ export async function getAliases(
   return aliases;
 }
 
+/**
+ * Walk the project references of tsconfig.json, files in a referenced project
+ * are resolved with the path aliases of that project.
+ */
+export async function getProjectAliases(
+  aliases: MapLike<string[]>,
+  cwd: string,
+): Promise<ProjectAliases[]> {
+  const projects: ProjectAliases[] = [];
+  const seen = new Set<string>();
+  const rootFile = path.resolve(cwd, 'tsconfig.json');
+  const queue = [rootFile];
+
+  while (queue.length) {
+    const file = queue.shift() as string;
+
+    if (seen.has(file)) {
+      continue;
+    }
+
+    seen.add(file);
+    const tsconfig = await readTsConfig(file);
+
+    if (!tsconfig) {
+      continue;
+    }
+
+    if (file !== rootFile) {
+      projects.push({
+        root: path.dirname(file).replace(/\\/g, '/'),
+        aliases: { ...aliases, ...getPathAliases(tsconfig) },
+      });
+    }
+
+    queue.push(...tsconfig.references);
+  }
+
+  return projects;
+}
+
 // normalize the aliases. The keys maintain trailing '/' to ease path comparison,
 // in: { '@components/*': ['src/components/*'] }
 // out: { '@components/': ['src/components/'] }
@@ -124,6 +291,95 @@ export async function getDependencies(
   return packageJson.dependencies || {};
 }
 
+export async function getDevDependencies(
+  projectPath: string,
+): Promise<Context['devDependencies']> {
+  const packageJson = await fs.readJson<PackageJson>(
+    'package.json',
+    projectPath,
+  );
+
+  if (!packageJson) {
+    return {};
+  }
+
+  return packageJson.devDependencies || {};
+}
+
+// every package that package.json declares, these are not missing when imported
+export async function getDeclaredDependencies(
+  projectPath: string,
+): Promise<Context['declaredDependencies']> {
+  const packageJson = await fs.readJson<PackageJson>(
+    'package.json',
+    projectPath,
+  );
+
+  if (!packageJson) {
+    return {};
+  }
+
+  return {
+    ...packageJson.optionalDependencies,
+    ...packageJson.peerDependencies,
+    ...packageJson.devDependencies,
+    ...packageJson.dependencies,
+  };
+}
+
+// the names of the binaries that a package installs in node_modules/.bin
+function getBinaries(name: string, packageJson: PackageJson | null): string[] {
+  const bin = packageJson ? packageJson.bin : name;
+
+  if (!bin) {
+    return [];
+  }
+
+  return typeof bin === 'string'
+    ? [name.replace(/^@.*\//, '')]
+    : Object.keys(bin);
+}
+
+// packages that aren't imported, but run by the scripts of package.json
+export async function getScriptDependencies(
+  projectPath: string,
+): Promise<Context['scriptDependencies']> {
+  const packageJson = await fs.readJson<PackageJson>(
+    'package.json',
+    projectPath,
+  );
+
+  if (!packageJson?.scripts) {
+    return {};
+  }
+
+  const commands = new Set(
+    Object.values(packageJson.scripts)
+      .flatMap((script) => script.split(/[\s;&|()]+/))
+      .map((word) => word.replace(/^.*\//, '')),
+  );
+
+  const scriptDependencies = {};
+  const dependencies = {
+    ...packageJson.devDependencies,
+    ...packageJson.dependencies,
+  };
+
+  for (const [dep, version] of Object.entries(dependencies)) {
+    // packages that aren't installed are expected to be named after their binary
+    const json = await fs.readJson<PackageJson>(
+      join('node_modules', dep, 'package.json'),
+      projectPath,
+    );
+
+    if (getBinaries(dep, json).some((bin) => commands.has(bin))) {
+      scriptDependencies[dep] = version;
+    }
+  }
+
+  return scriptDependencies;
+}
+
 export async function getPeerDependencies(
   projectPath: string,
 ): Promise<Context['peerDependencies']> {
@@ -149,30 +405,99 @@ export async function getPeerDependencies(
   return peerDependencies;
 }
 
+// packages that are loaded by the framework, rather than imported. The app
+// router doesn't need to import react, and nothing imports next or react-dom
+const PRESET_DEPENDENCIES: { [preset: string]: string[] } = {
+  next: ['next', 'react', 'react-dom'],
+};
+
+export function getPresetDependencies(preset?: string): string[] {
+  return (preset && PRESET_DEPENDENCIES[preset]) || [];
+}
+
+// files in the app directory that are picked up by the framework, other files
+// can be colocated with them, and are only used when imported
+const NEXT_APP_FILES = [
+  'page',
+  'layout',
+  'template',
+  'loading',
+  'error',
+  'global-error',
+  'not-found',
+  'forbidden',
+  'unauthorized',
+  'default',
+  'route',
+  'opengraph-image',
+  'twitter-image',
+  'icon',
+  'apple-icon',
+  'sitemap',
+  'robots',
+  'manifest',
+];
+
+// files in the project root, or in src when the pages or app dir live there
+const NEXT_ROOT_FILES = [
+  'middleware',
+  'instrumentation',
+  'instrumentation-client',
+  'mdx-components',
+];
+
+/**
+ * Return the files that Next.js loads by convention, for both the pages and
+ * the app router
+ */
+async function findNextEntryFiles(
+  extensions: string[],
+  cwd: string,
+): Promise<string[]> {
+  // a single extension can't be wrapped in braces
+  const ext = extensions.map((x) => x.replace(/^\./, ''));
+  const extGlob = ext.length > 1 ? `{${ext.join(',')}}` : ext[0];
+  const withExt = (name: string) => `${name}.${extGlob}`;
+
+  const patterns = [
+    ...['./pages', './src/pages'].map((dir) => `${dir}/**/${withExt('*')}`),
+    ...['./app', './src/app'].map(
+      (dir) => `${dir}/**/${withExt(`{${NEXT_APP_FILES.join(',')}}`)}`,
+    ),
+    ...['.', './src'].map((dir) =>
+      withExt(`${dir}/{${NEXT_ROOT_FILES.join(',')}}`),
+    ),
+    NEXT_CONFIG_FILES,
+  ];
+
+  return expandGlob(patterns, ['**/node_modules/**'], cwd);
+}
+
 /**
  * Return relative paths to resolved entry files
  */
 export async function findEntryFiles(
   preset: string,
   extensions: string[],
+  cwd: string,
 ): Promise<string[]> {
-  const packageJson = await fs.readJson<PackageJson>('package.json');
+  const packageJson = await fs.readJson<PackageJson>('package.json', cwd);
 
   if (!packageJson) {
-    throw new Error('could not load package.json');
+    throw new ProjectError('could not load package.json', cwd);
   }
 
   if (preset === 'next') {
-    const pages = await expandGlob('./pages/**/*.{js,jsx,ts,tsx}');
-    return pages.map((page) => page);
+    return findNextEntryFiles(extensions, cwd);
   }
 
   if (preset === 'meteor') {
     const mainModule = packageJson.meteor?.mainModule;
 
     if (!mainModule) {
-      throw new Error(
+      throw new ProjectError(
         'Meteor projects are only supported if the mainModule is defined in package.json',
+        cwd,
       );
     }
 
@@ -194,7 +519,7 @@ export async function findEntryFiles(
       try {
         return resolve
           .sync(x, {
-            basedir: process.cwd(),
+            basedir: cwd,
             extensions,
           })
           .replace(/\\/g, '/');
@@ -203,8 +528,37 @@ export async function findEntryFiles(
     .filter(Boolean);
 
   if (entry) {
-    return [path.relative(process.cwd(), entry)];
+    return [path.relative(cwd, entry)];
+  }
+
+  throw new ProjectError('could not find entry point', cwd);
+}
+
+/**
+ * Return relative paths to the source files that are exposed through the
+ * exports map of package.json
+ */
+export async function findExportedFiles(
+  conditions: string[],
+  extensions: string[],
+  cwd: string,
+): Promise<string[]> {
+  const packageJson = await fs.readJson<PackageJson>('package.json', cwd);
+
+  if (!packageJson?.exports) {
+    return [];
   }
 
-  throw new Error('could not find entry point');
+  const targets = getSubpathTargets(
+    normalizeExports(packageJson.exports),
+    conditions,
+  );
+
+  const files = await expandGlob(targets, ['**/node_modules/**'], cwd);
+
+  return files
+    .filter((file) => extensions.includes(path.extname(file)))
+    .map((file) =>
+      path.relative(cwd, path.resolve(cwd, file)).replace(/\\/g, '/'),
+    );
 }
@@ -0,0 +1,84 @@
+import path from 'path';
+import resolve from 'resolve';
+import type { SourcePosition } from './traverse';
+import { ConfigError } from './errors';
+
+export interface PluginImport {
+  // the import specifier as written, like `./fragments.graphql` or `lodash`
+  path: string;
+  loc: SourcePosition;
+  // the imported names, defaults to `*`, which marks all exports as used
+  names?: string[];
+}
+
+/**
+ * A plugin extracts the imports of the file types that it declares, those are
+ * resolved, cached and reported like the imports of built-in file types.
+ */
+export interface Plugin {
+  name: string;
+  // the extensions that are handled by the plugin, like `.graphql`
+  extensions: string[];
+  extract(code: string, file: string): PluginImport[] | Promise<PluginImport[]>;
+}
+
+function isPlugin(value: unknown): value is Omit<Plugin, 'name'> {
+  const plugin = value as Plugin | undefined;
+
+  return (
+    !!plugin &&
+    Array.isArray(plugin.extensions) &&
+    typeof plugin.extract === 'function'
+  );
+}
+
+/**
+ * Load the plugins listed in .unimportedrc.json, as relative path from the
+ * project root, or as package name
+ */
+export function resolvePlugin(file: string, cwd = process.cwd()): string {
+  return resolve.sync(file, { basedir: cwd, extensions: ['.js', '.cjs'] });
+}
+
+export function loadPlugins(files: string[], cwd = process.cwd()): Plugin[] {
+  return files.map((file) => {
+    let exported;
+
+    try {
+      const resolved = resolvePlugin(file, cwd);
+      // load the plugin again, when the config is read after it's changed
+      delete require.cache[resolved];
+      exported = require(resolved);
+    } catch (error) {
+      throw new ConfigError(
+        `could not load plugin ${file}: ${error.message}`,
+        file,
+      );
+    }
+
+    const plugin = exported?.default ?? exported;
+
+    if (!isPlugin(plugin)) {
+      throw new ConfigError(
+        `invalid plugin ${file}, plugins should export { extensions: string[], extract(code, file) }`,
+        file,
+      );
+    }
+
+    return {
+      name: (plugin as Partial<Plugin>).name || file,
+      extensions: plugin.extensions.map((x) =>
+        x.startsWith('.') ? x : `.${x}`,
+      ),
+      extract: (code, file) => plugin.extract(code, file),
+    };
+  });
+}
+
+export function getPlugin(
+  plugins: Plugin[] | undefined,
+  file: string,
+): Plugin | undefined {
+  const extension = path.extname(file);
+  return plugins?.find((plugin) => plugin.extensions.includes(extension));
+}
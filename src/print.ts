@@ -1,7 +1,20 @@
 import termSize from 'term-size';
 import chalk from 'chalk';
 import { Context } from './index';
-import { ProcessedResult } from './process';
+import {
+  BuiltinImports,
+  Finding,
+  MissingDependency,
+  ProcessedResult,
+  ResultDiff,
+  StaleIgnores,
+  UnresolvedImport,
+  WidenedImport,
+} from './process';
+import { ImportLocation } from './traverse';
+import { ImportChain } from './why';
+import { UnusedExport } from './exports';
+import { diffLines, FileChange } from './fix';
 
 const { columns } = termSize();
 
@@ -24,9 +37,44 @@ export function formatList(caption: string, records: string[]): string {
   return `\n${lines.join('\n')}\n`;
 }
 
+export function formatLocation(location: ImportLocation): string {
+  return `${location.file}:${location.line}:${location.column}`;
+}
+
+export function formatUnresolved(unresolved: UnresolvedImport): string {
+  if (!unresolved.importers.length) {
+    return unresolved.path;
+  }
+
+  const locations = unresolved.importers.map(formatLocation).join(', ');
+  return `${unresolved.path} ${chalk.grey(`imported from ${locations}`)}`;
+}
+
+export function formatMissing(missing: MissingDependency): string {
+  const locations = missing.importers.map(formatLocation).join(', ');
+  return `${missing.name} ${chalk.grey(`imported from ${locations}`)}`;
+}
+
+export function formatBuiltins(builtins: BuiltinImports): string {
+  const modules = Array.from(new Set(builtins.imports.map((x) => x.path)));
+  return `${builtins.file} ${chalk.grey(`imports ${modules.join(', ')}`)}`;
+}
+
+export function formatWidened(widened: WidenedImport): string {
+  return `${formatLocation(widened)} ${chalk.grey(
+    `widened to ${widened.pattern}`,
+  )}`;
+}
+
+export function formatUnusedExport(unusedExport: UnusedExport): string {
+  return `${unusedExport.name} ${chalk.grey(
+    `exported from ${formatLocation(unusedExport.loc)}`,
+  )}`;
+}
+
 export function formatMetaTable(
   caption: string,
-  data: { unresolved: string[]; unimported: string[]; unused: string[] },
+  data: Omit<ProcessedResult, 'clean'>,
   context: Context,
 ): string {
   const entryFiles = context.config.entryFiles;
@@ -35,10 +83,32 @@ export function formatMetaTable(
       `entry file ${entryFiles.length > 1 ? idx + 1 : ''}`,
       entry.label ? `${entry.file} — ${entry.label}` : entry.file,
     ]),
+    ...(context.changedSince ? [['changed since', context.changedSince]] : []),
     ['', ''],
     ['unresolved imports', data.unresolved.length],
     ['unused dependencies', data.unused.length],
     ['unimported files', data.unimported.length],
+    ['missing dependencies', data.missing.length],
+    ...(data.unusedExports
+      ? [['unused exports', data.unusedExports.length]]
+      : []),
+    ...(data.unusedDevDependencies
+      ? [['unused devDependencies', data.unusedDevDependencies.length]]
+      : []),
+    ...(data.productionDevDependencies
+      ? [
+          [
+            'devDependencies in production',
+            data.productionDevDependencies.length,
+          ],
+        ]
+      : []),
+    ...(data.devOnlyDependencies
+      ? [['dependencies only used in dev', data.devOnlyDependencies.length]]
+      : []),
+    ...(data.builtins
+      ? [['files importing node built-ins', data.builtins.length]]
+      : []),
   ] as [string, string][];
 
   const space = ' '.repeat(6);
@@ -60,8 +130,378 @@ export function formatMetaTable(
   return `\n${lines.join('\n')}\n`;
 }
 
+// bump this whenever the shape of the json report changes in a non-additive way
+export const JSON_REPORT_VERSION = 2;
+
+export interface JsonReport {
+  reportVersion: number;
+  version: string;
+  preset?: string;
+  entryFiles: { file: string; label?: string }[];
+  // the git ref that the findings are filtered on, with --changed-since
+  changedSince?: string;
+  config: {
+    extensions: string[];
+    ignorePatterns: string[];
+    moduleDirectory: string[];
+    flow: boolean;
+  };
+  summary: {
+    unresolved: number;
+    unused: number;
+    unimported: number;
+    missing: number;
+    unusedExports?: number;
+    unusedDevDependencies?: number;
+    productionDevDependencies?: number;
+    devOnlyDependencies?: number;
+    builtins?: number;
+  };
+  unresolved: string[];
+  unresolvedImports: UnresolvedImport[];
+  unused: string[];
+  unimported: string[];
+  missing: MissingDependency[];
+  unusedExports?: UnusedExport[];
+  unusedDevDependencies?: string[];
+  productionDevDependencies?: string[];
+  devOnlyDependencies?: string[];
+  builtins?: BuiltinImports[];
+  widened?: WidenedImport[];
+  fixedBaseline?: Finding[];
+  staleIgnores?: StaleIgnores;
+  clean: boolean;
+}
+
+function getJsonReport(result: ProcessedResult, context: Context): JsonReport {
+  const { config } = context;
+
+  return {
+    reportVersion: JSON_REPORT_VERSION,
+    version: context.version,
+    preset: config.preset,
+    entryFiles: config.entryFiles.map((entry) => ({
+      file: entry.file,
+      label: entry.label,
+    })),
+    changedSince: context.changedSince,
+    config: {
+      extensions: config.extensions,
+      ignorePatterns: config.ignorePatterns,
+      moduleDirectory: context.moduleDirectory,
+      flow: !!context.flow,
+    },
+    summary: {
+      unresolved: result.unresolved.length,
+      unused: result.unused.length,
+      unimported: result.unimported.length,
+      missing: result.missing.length,
+      unusedExports: result.unusedExports?.length,
+      unusedDevDependencies: result.unusedDevDependencies?.length,
+      productionDevDependencies: result.productionDevDependencies?.length,
+      devOnlyDependencies: result.devOnlyDependencies?.length,
+      builtins: result.builtins?.length,
+    },
+    unresolved: result.unresolved.map((x) => x.path),
+    unresolvedImports: result.unresolved,
+    unused: result.unused,
+    unimported: result.unimported,
+    missing: result.missing,
+    unusedExports: result.unusedExports,
+    unusedDevDependencies: result.unusedDevDependencies,
+    productionDevDependencies: result.productionDevDependencies,
+    devOnlyDependencies: result.devOnlyDependencies,
+    builtins: result.builtins,
+    widened: result.widened,
+    fixedBaseline: result.fixedBaseline,
+    staleIgnores: result.staleIgnores,
+    clean: result.clean,
+  };
+}
+
+export function formatJson(result: ProcessedResult, context: Context): string {
+  const report = getJsonReport(result, context);
+
+  return JSON.stringify(report, null, '  ');
+}
+
+const SARIF_RULES = [
+  {
+    id: 'unresolved-import',
+    level: 'error',
+    description: 'The import could not be resolved to a file or dependency.',
+  },
+  {
+    id: 'unused-dependency',
+    level: 'warning',
+    description: 'The dependency is declared, but not imported by any file.',
+  },
+  {
+    id: 'unimported-file',
+    level: 'warning',
+    description: 'The file is not imported by any of the entry files.',
+  },
+  {
+    id: 'unused-export',
+    level: 'warning',
+    description: 'The export is not imported by any file.',
+  },
+  {
+    id: 'unused-dev-dependency',
+    level: 'warning',
+    description: 'The devDependency is not imported by any file.',
+  },
+  {
+    id: 'production-dev-dependency',
+    level: 'error',
+    description: 'The devDependency is imported by production code.',
+  },
+  {
+    id: 'dev-only-dependency',
+    level: 'warning',
+    description: 'The dependency is only imported by test or tooling files.',
+  },
+  {
+    id: 'missing-dependency',
+    level: 'error',
+    description: 'The package is imported, but not declared in package.json.',
+  },
+  {
+    id: 'builtin-import',
+    level: 'note',
+    description: 'The file imports a Node built-in module.',
+  },
+  {
+    id: 'widened-import',
+    level: 'note',
+    description:
+      'The dynamic import is widened to a glob, all matching files are considered imported.',
+  },
+];
+
+function sarifResult(
+  ruleId: string,
+  message: string,
+  uri: string,
+  position?: { line: number; column: number },
+) {
+  const ruleIndex = SARIF_RULES.findIndex((rule) => rule.id === ruleId);
+
+  return {
+    ruleId,
+    ruleIndex,
+    level: SARIF_RULES[ruleIndex].level,
+    message: { text: message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri, uriBaseId: '%SRCROOT%' },
+          ...(position && {
+            region: {
+              startLine: position.line,
+              startColumn: position.column,
+            },
+          }),
+        },
+      },
+    ],
+  };
+}
+
+// the uris are relative to the project root, or the workspace root when a base is given
+function getSarifResults(result: ProcessedResult, base = '') {
+  const at = (file: string) => (base ? `${base}/${file}` : file);
+
+  return [
+    ...result.unresolved.flatMap((unresolved) =>
+      unresolved.importers.map((importer) =>
+        sarifResult(
+          'unresolved-import',
+          `Unable to resolve import '${unresolved.path}'.`,
+          at(importer.file),
+          importer,
+        ),
+      ),
+    ),
+    ...result.unused.map((dependency) =>
+      sarifResult(
+        'unused-dependency',
+        `The dependency '${dependency}' is not used.`,
+        at('package.json'),
+      ),
+    ),
+    ...result.unimported.map((file) =>
+      sarifResult(
+        'unimported-file',
+        `The file '${file}' is not imported.`,
+        at(file),
+      ),
+    ),
+    ...(result.unusedExports || []).map((unusedExport) =>
+      sarifResult(
+        'unused-export',
+        `The export '${unusedExport.name}' is not used.`,
+        at(unusedExport.loc.file),
+        unusedExport.loc,
+      ),
+    ),
+    ...(result.unusedDevDependencies || []).map((dependency) =>
+      sarifResult(
+        'unused-dev-dependency',
+        `The devDependency '${dependency}' is not used.`,
+        at('package.json'),
+      ),
+    ),
+    ...(result.productionDevDependencies || []).map((dependency) =>
+      sarifResult(
+        'production-dev-dependency',
+        `The devDependency '${dependency}' is used in production code.`,
+        at('package.json'),
+      ),
+    ),
+    ...(result.devOnlyDependencies || []).map((dependency) =>
+      sarifResult(
+        'dev-only-dependency',
+        `The dependency '${dependency}' is only used in development.`,
+        at('package.json'),
+      ),
+    ),
+    ...result.missing.flatMap((missing) =>
+      missing.importers.map((importer) =>
+        sarifResult(
+          'missing-dependency',
+          `The package '${missing.name}' is not declared in package.json.`,
+          at(importer.file),
+          importer,
+        ),
+      ),
+    ),
+    ...(result.builtins || []).flatMap((builtins) =>
+      builtins.imports.map((builtin) =>
+        sarifResult(
+          'builtin-import',
+          `The file imports the Node built-in '${builtin.path}'.`,
+          at(builtins.file),
+          builtin,
+        ),
+      ),
+    ),
+    ...(result.widened || []).map((widened) =>
+      sarifResult(
+        'widened-import',
+        `The dynamic import is widened to '${widened.pattern}'.`,
+        at(widened.file),
+        widened,
+      ),
+    ),
+  ];
+}
+
+function formatSarifReport(
+  results: ReturnType<typeof getSarifResults>,
+  version: string,
+): string {
+  const report = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'unimported',
+            version,
+            informationUri: 'https://github.com/smeijer/unimported',
+            rules: SARIF_RULES.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.level },
+            })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(report, null, '  ');
+}
+
+export function formatSarif(result: ProcessedResult, context: Context): string {
+  return formatSarifReport(getSarifResults(result), context.version);
+}
+
+function printBuiltins(builtins?: BuiltinImports[]): void {
+  if (!builtins || !builtins.length) {
+    return;
+  }
+
+  console.log(
+    formatList(
+      chalk.yellowBright(`${builtins.length} files importing node built-ins`),
+      builtins.map(formatBuiltins),
+    ),
+  );
+}
+
+// informational, like the builtins, these don't make the result unclean
+function printWidened(widened?: WidenedImport[]): void {
+  if (!widened || !widened.length) {
+    return;
+  }
+
+  console.log(
+    formatList(
+      chalk.grey(`${widened.length} dynamic imports widened to globs`),
+      widened.map(formatWidened),
+    ),
+  );
+}
+
+// the stale entries are pruned by --update
+function printStaleIgnores(staleIgnores?: StaleIgnores): void {
+  if (!staleIgnores) {
+    return;
+  }
+
+  const records = Object.entries(staleIgnores).flatMap(([list, entries]) =>
+    entries.map((entry) => `${entry} ${chalk.grey(`in ${list}`)}`),
+  );
+
+  console.log(
+    formatList(
+      chalk.yellowBright(`${records.length} stale ignore entries`),
+      records,
+    ),
+  );
+  console.log(
+    `\n       Run ${chalk.greenBright(
+      'npx unimported -u',
+    )} to remove them from .unimportedrc.json`,
+  );
+}
+
+export function printWarnings(warnings: string[] = []): void {
+  for (const warning of warnings) {
+    console.warn(chalk.yellowBright(warning));
+  }
+}
+
 export function printResults(result: ProcessedResult, context: Context): void {
+  if (context.format === 'json') {
+    console.log(formatJson(result, context));
+    return;
+  }
+
+  if (context.format === 'sarif') {
+    console.log(formatSarif(result, context));
+    return;
+  }
+
   if (result.clean) {
+    printBuiltins(result.builtins);
+    printWidened(result.widened);
+    printFixedBaseline(result.fixedBaseline);
+    printStaleIgnores(result.staleIgnores);
     console.log(
       chalk.greenBright(`✓`) +
         chalk.white(" There don't seem to be any unimported files."),
@@ -69,22 +509,29 @@ export function printResults(result: ProcessedResult, context: Context): void {
     return;
   }
 
-  const { unresolved, unused, unimported } = result;
+  const {
+    unresolved,
+    unused,
+    unimported,
+    missing,
+    unusedExports,
+    unusedDevDependencies,
+    productionDevDependencies,
+    devOnlyDependencies,
+    builtins,
+    widened,
+    fixedBaseline,
+    staleIgnores,
+  } = result;
 
   // render
-  console.log(
-    formatMetaTable(
-      chalk.greenBright(`summary`),
-      { unresolved, unused, unimported },
-      context,
-    ),
-  );
+  console.log(formatMetaTable(chalk.greenBright(`summary`), result, context));
 
   if (unresolved.length > 0) {
     console.log(
       formatList(
         chalk.redBright(`${unresolved.length} unresolved imports`),
-        unresolved,
+        unresolved.map(formatUnresolved),
       ),
     );
   }
@@ -107,9 +554,256 @@ export function printResults(result: ProcessedResult, context: Context): void {
     );
   }
 
+  if (missing.length > 0) {
+    console.log(
+      formatList(
+        chalk.redBright(`${missing.length} missing dependencies`),
+        missing.map(formatMissing),
+      ),
+    );
+  }
+
+  if (unusedExports && unusedExports.length > 0) {
+    console.log(
+      formatList(
+        chalk.magentaBright(`${unusedExports.length} unused exports`),
+        unusedExports.map(formatUnusedExport),
+      ),
+    );
+  }
+
+  if (unusedDevDependencies && unusedDevDependencies.length > 0) {
+    console.log(
+      formatList(
+        chalk.blueBright(
+          `${unusedDevDependencies.length} unused devDependencies`,
+        ),
+        unusedDevDependencies,
+      ),
+    );
+  }
+
+  if (productionDevDependencies && productionDevDependencies.length > 0) {
+    console.log(
+      formatList(
+        chalk.redBright(
+          `${productionDevDependencies.length} devDependencies used in production`,
+        ),
+        productionDevDependencies,
+      ),
+    );
+  }
+
+  if (devOnlyDependencies && devOnlyDependencies.length > 0) {
+    console.log(
+      formatList(
+        chalk.yellowBright(
+          `${devOnlyDependencies.length} dependencies only used in development`,
+        ),
+        devOnlyDependencies,
+      ),
+    );
+  }
+
+  printBuiltins(builtins);
+  printWidened(widened);
+  printFixedBaseline(fixedBaseline);
+  printStaleIgnores(staleIgnores);
+
   console.log(
     `\n       Inspect the results and run ${chalk.greenBright(
       'npx unimported -u',
     )} to update ignore lists`,
   );
 }
+
+export interface WorkspaceResult {
+  name: string;
+  // relative to the workspace root
+  path: string;
+  result: ProcessedResult;
+  context: Context;
+}
+
+export function printWorkspaceResults(results: WorkspaceResult[]): void {
+  const [first] = results;
+  const { format, version } = first.context;
+
+  if (format === 'json') {
+    const report = {
+      reportVersion: JSON_REPORT_VERSION,
+      version,
+      workspaces: results.map(({ name, path, result, context }) => ({
+        name,
+        path,
+        report: getJsonReport(result, context),
+      })),
+      clean: results.every(({ result }) => result.clean),
+    };
+
+    console.log(JSON.stringify(report, null, '  '));
+    return;
+  }
+
+  if (format === 'sarif') {
+    console.log(
+      formatSarifReport(
+        results.flatMap(({ path, result }) => getSarifResults(result, path)),
+        version,
+      ),
+    );
+    return;
+  }
+
+  for (const { name, path, result, context } of results) {
+    console.log(`\n${chalk.whiteBright(name)} ${chalk.grey(path)}`);
+    printResults(result, context);
+  }
+}
+
+const FINDING_LABELS: Record<Finding['type'], string> = {
+  unimported: 'unimported file',
+  unused: 'unused dependency',
+  unresolved: 'unresolved import',
+  missing: 'missing dependency',
+  unusedExport: 'unused export',
+  unusedDevDependency: 'unused devDependency',
+  productionDevDependency: 'devDependency used in production',
+  devOnlyDependency: 'dependency only used in development',
+};
+
+// the fixed entries can be pruned, by writing the baseline again
+function printFixedBaseline(fixed?: Finding[]): void {
+  if (!fixed || !fixed.length) {
+    return;
+  }
+
+  console.log(
+    formatList(
+      chalk.greenBright(`${fixed.length} baseline entries are fixed`),
+      fixed.map(
+        ({ type, value }) => `${value} ${chalk.grey(FINDING_LABELS[type])}`,
+      ),
+    ),
+  );
+  console.log(
+    `\n       Run ${chalk.greenBright(
+      'npx unimported --write-baseline',
+    )} to prune the baseline`,
+  );
+}
+
+// new findings are marked with `+`, resolved findings with `-`
+export function printResultDiff(
+  diff: ResultDiff,
+  changed: string[],
+  context: Context,
+): void {
+  const files = changed.map((file) =>
+    file.startsWith(`${context.cwd}/`)
+      ? file.substr(context.cwd.length + 1)
+      : file,
+  );
+
+  console.log(chalk.grey(`\n${files.join(', ')} changed`));
+
+  if (!diff.added.length && !diff.removed.length) {
+    console.log(chalk.grey('no changes in findings'));
+    return;
+  }
+
+  for (const { type, value } of diff.added) {
+    console.log(
+      `${chalk.redBright('+')} ${chalk.grey(FINDING_LABELS[type])} ${value}`,
+    );
+  }
+
+  for (const { type, value } of diff.removed) {
+    console.log(
+      `${chalk.greenBright('-')} ${chalk.grey(FINDING_LABELS[type])} ${value}`,
+    );
+  }
+}
+
+export function printImportChains(
+  target: string,
+  chains: ImportChain[],
+  context: Context,
+): void {
+  if (!chains.length) {
+    console.log(
+      chalk.redBright(`✕`) +
+        chalk.white(` ${target} is not imported by any of the entry files.`),
+    );
+    return;
+  }
+
+  const records = chains.map(({ chain }) =>
+    chain
+      .map((file) =>
+        file.startsWith(`${context.cwd}/`)
+          ? file.substr(context.cwd.length + 1)
+          : file,
+      )
+      .join(chalk.grey(' → ')),
+  );
+
+  console.log(
+    formatList(
+      chalk.greenBright(
+        `${target} is imported through ${chains.length} entry files`,
+      ),
+      records,
+    ),
+  );
+}
+
+export function printRemovedFiles(files: string[], context: Context): void {
+  if (!files.length) {
+    console.log(chalk.white('There are no unimported files to remove.'));
+    return;
+  }
+
+  const caption = context.dryRun
+    ? `${files.length} unimported files would be removed`
+    : `${files.length} unimported files removed`;
+
+  console.log(formatList(chalk.yellowBright(caption), files));
+}
+
+export function formatDiff(change: FileChange): string {
+  const lines = diffLines(change.before, change.after)
+    .filter((x) => x.type !== ' ')
+    .map((x) =>
+      x.type === '-'
+        ? chalk.redBright(`- ${x.line}`)
+        : chalk.greenBright(`+ ${x.line}`),
+    );
+
+  return `\n${chalk.whiteBright(change.path)}\n${lines.join('\n')}\n`;
+}
+
+export function printRemovedDependencies(
+  dependencies: string[],
+  change: FileChange,
+  context: Context,
+): void {
+  if (!dependencies.length) {
+    console.log(chalk.white('There are no unused dependencies to remove.'));
+    return;
+  }
+
+  if (context.dryRun) {
+    console.log(formatDiff(change));
+    return;
+  }
+
+  console.log(
+    formatList(
+      chalk.yellowBright(
+        `${dependencies.length} unused dependencies removed from ${change.path}`,
+      ),
+      dependencies,
+    ),
+  );
+}
@@ -1,12 +1,70 @@
-import { TraverseResult } from './traverse';
+import {
+  addMissing,
+  getResultObject,
+  ImportLocation,
+  SourcePosition,
+  TraverseResult,
+} from './traverse';
 import { Context } from './index';
 import { ensureArray } from './ensureArray';
 import minimatch from 'minimatch';
+import { findUnusedExports, UnusedExport } from './exports';
+import { getPresetDependencies } from './meta';
+import path from 'path';
+
+export interface UnresolvedImport {
+  path: string;
+  // locations of the import statements, file paths are relative to cwd
+  importers: ImportLocation[];
+}
+
+export interface MissingDependency {
+  name: string;
+  // locations of the import statements, file paths are relative to cwd
+  importers: ImportLocation[];
+}
+
+export interface BuiltinImports {
+  // relative to cwd
+  file: string;
+  // the built-in modules as imported, with or without `node:` prefix
+  imports: (SourcePosition & { path: string })[];
+}
+
+export interface WidenedImport extends ImportLocation {
+  // the glob that replaced the dynamic import, relative to the importing file
+  pattern: string;
+}
+
+// the entries of the ignore lists that don't match anything anymore
+export interface StaleIgnores {
+  // the files don't exist, or are imported
+  ignoreUnimported: string[];
+  // the dependencies aren't declared, or are used
+  ignoreUnused: string[];
+  // the imports resolve, or don't exist
+  ignoreUnresolved: string[];
+}
 
 export interface ProcessedResult {
-  unresolved: string[];
+  unresolved: UnresolvedImport[];
   unimported: string[];
   unused: string[];
+  missing: MissingDependency[];
+  // only available when running with --unused-exports
+  unusedExports?: UnusedExport[];
+  // only available when running with --check-dev-dependencies
+  unusedDevDependencies?: string[];
+  productionDevDependencies?: string[];
+  devOnlyDependencies?: string[];
+  // only available when running with --report-builtins, doesn't affect clean
+  builtins?: BuiltinImports[];
+  // dynamic imports that were widened to globs, doesn't affect clean
+  widened?: WidenedImport[];
+  // baseline entries that are no longer found, doesn't affect clean
+  fixedBaseline?: Finding[];
+  // ignore list entries that can be pruned, doesn't affect clean
+  staleIgnores?: StaleIgnores;
   clean: boolean;
 }
 
@@ -17,35 +75,342 @@ function index(array: string | string[]): { [key: string]: boolean } {
   }, {});
 }
 
+function relativeLocations<T extends ImportLocation>(
+  locations: T[],
+  cwd: string,
+): T[] {
+  return locations
+    .map((x) => ({ ...x, file: x.file.substr(cwd.length + 1) }))
+    .sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column,
+    );
+}
+
 export async function processResults(
   files: string[],
   traverseResult: TraverseResult,
   context: Context,
+  devTraverseResult?: TraverseResult,
+  // in workspace mode, the files of all packages, so that files and exports
+  // that are used by other packages are not reported
+  workspaceFiles?: TraverseResult['files'],
 ): Promise<ProcessedResult> {
+  const importedFiles = workspaceFiles || traverseResult.files;
   const ignoreUnresolvedIdx = index(context.config.ignoreUnresolved);
   const ignoreUnused = context.config.ignoreUnused;
   const ignoreUnimportedIdx = index(context.config.ignoreUnimported);
+  const ignoreMissing = context.config.ignoreMissing;
 
-  const unresolved = Array.from(traverseResult.unresolved).filter(
-    (x) => !ignoreUnresolvedIdx[x],
-  );
+  const unresolved = Array.from(traverseResult.unresolved)
+    .filter(([path]) => !ignoreUnresolvedIdx[path])
+    .map(([path, importers]) => ({
+      path,
+      importers: relativeLocations(importers, context.cwd),
+    }));
+
+  const isIgnoredUnused = (x: string) =>
+    ignoreUnused.some((ignore) => x === ignore || minimatch(x, ignore));
+
+  const isIgnoredMissing = (x: string) =>
+    ignoreMissing.some((ignore) => x === ignore || minimatch(x, ignore));
+
+  // test and tooling files can have undeclared imports as well
+  const missingImports = getResultObject();
+  for (const result of [traverseResult, devTraverseResult]) {
+    result?.missing.forEach((locations, name) => {
+      for (const location of locations) {
+        addMissing(missingImports, name, location);
+      }
+    });
+  }
+
+  // devDependencies, peerDependencies and optionalDependencies are declared,
+  // devDependencies are only traversed as such when running with
+  // --check-dev-dependencies
+  const missing = Array.from(missingImports.missing)
+    .filter(
+      ([name]) =>
+        !context.declaredDependencies[name] && !isIgnoredMissing(name),
+    )
+    .map(([name, importers]) => ({
+      name,
+      importers: relativeLocations(importers, context.cwd),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
 
-  const unused = Object.keys(context.dependencies).filter(
+  const presetDependencies = getPresetDependencies(context.config.preset);
+
+  const notUsedInProduction = Object.keys(context.dependencies).filter(
     (x) =>
       !traverseResult.modules.has(x) &&
       !context.peerDependencies[x] &&
-      !ignoreUnused.some((ignore) => x === ignore || minimatch(x, ignore)),
+      !presetDependencies.includes(x),
+  );
+
+  const unusedInProduction = notUsedInProduction.filter(
+    (x) => !isIgnoredUnused(x),
   );
 
-  const unimported = files
-    .filter((x) => !traverseResult.files.has(x))
-    .map((x) => x.substr(context.cwd.length + 1))
-    .filter((x) => !ignoreUnimportedIdx[x]);
+  // dependencies that are only used by tests or tooling, are reported separately
+  const devOnlyDependencies = devTraverseResult
+    ? unusedInProduction.filter((x) => devTraverseResult.modules.has(x))
+    : undefined;
+
+  const unused = unusedInProduction.filter(
+    (x) => !devOnlyDependencies?.includes(x),
+  );
+
+  const devDependencies = devTraverseResult
+    ? Object.keys(context.devDependencies).filter(
+        (x) => !context.dependencies[x],
+      )
+    : [];
+
+  const isUsed = (x: string) =>
+    traverseResult.modules.has(x) ||
+    !!devTraverseResult?.modules.has(x) ||
+    !!context.scriptDependencies[x] ||
+    presetDependencies.includes(x);
+
+  // the types of react are in @types/react, those of @babel/core in
+  // @types/babel__core, the types are used when the package is
+  const isUsedTypes = (x: string) =>
+    x.startsWith('@types/') &&
+    isUsed(x.slice('@types/'.length).replace(/^(.+)__/, '@$1/'));
+
+  const notUsedInDev = devTraverseResult
+    ? devDependencies.filter(
+        (x) => !isUsed(x) && !isUsedTypes(x) && !context.peerDependencies[x],
+      )
+    : [];
+
+  const unusedDevDependencies = devTraverseResult
+    ? notUsedInDev.filter((x) => !isIgnoredUnused(x))
+    : undefined;
+
+  const productionDevDependencies = devTraverseResult
+    ? devDependencies.filter((x) => traverseResult.modules.has(x))
+    : undefined;
+
+  const notImported = files
+    .filter((x) => !importedFiles.has(x))
+    // files can be outside cwd when symlinked, keep those recognizable
+    .map((x) => path.relative(context.cwd, x).replace(/\\/g, '/'));
+
+  const unimported = notImported.filter((x) => !ignoreUnimportedIdx[x]);
+
+  const unusedExports = context.unusedExports
+    ? findUnusedExports(
+        files,
+        context.config.entryFiles.map((x) =>
+          path.resolve(context.cwd, x.file).replace(/\\/g, '/'),
+        ),
+        { ...traverseResult, files: importedFiles },
+      ).map((x) => ({
+        ...x,
+        loc: { ...x.loc, file: x.loc.file.substr(context.cwd.length + 1) },
+      }))
+    : undefined;
+
+  const builtins = context.reportBuiltins
+    ? Array.from(traverseResult.files)
+        .map(([file, stats]) => ({
+          file: path.relative(context.cwd, file).replace(/\\/g, '/'),
+          imports: stats.imports
+            .filter((x) => x.type === 'builtin')
+            .map((x) => ({ path: x.path, ...x.loc })),
+        }))
+        .filter((x) => x.imports.length)
+        .sort((a, b) => a.file.localeCompare(b.file))
+    : undefined;
+
+  const widenedFiles = new Map([
+    ...(devTraverseResult?.files || []),
+    ...traverseResult.files,
+  ]);
+
+  const widened = relativeLocations(
+    Array.from(widenedFiles.values()).flatMap((stats) =>
+      (stats.globImports || []).flatMap((x) =>
+        x.type === 'glob' && x.dynamic
+          ? [{ file: stats.path, ...x.loc, pattern: x.patterns[0] }]
+          : [],
+      ),
+    ),
+    context.cwd,
+  );
+
+  const matches = (entry: string) => (x: string) =>
+    x === entry || minimatch(x, entry);
+
+  // without --check-dev-dependencies, it's unknown which devDependencies are
+  // used, so those entries are kept as long as the devDependency is declared
+  const notUsed = [
+    ...notUsedInProduction,
+    ...(devTraverseResult
+      ? notUsedInDev
+      : Object.keys(context.devDependencies)),
+  ];
+
+  const staleIgnores: StaleIgnores = {
+    ignoreUnimported: context.config.ignoreUnimportedPatterns.filter(
+      (entry) => !notImported.some(matches(entry)),
+    ),
+    ignoreUnused: context.config.ignoreUnused.filter(
+      (entry) => !notUsed.some(matches(entry)),
+    ),
+    ignoreUnresolved: context.config.ignoreUnresolved.filter(
+      (entry) => !traverseResult.unresolved.has(entry),
+    ),
+  };
+
+  const hasStaleIgnores = Object.values(staleIgnores).some((x) => x.length);
 
   return {
     unresolved,
     unused,
     unimported,
-    clean: !unresolved.length && !unused.length && !unimported.length,
+    missing,
+    ...(unusedExports && { unusedExports }),
+    ...(devTraverseResult && {
+      unusedDevDependencies,
+      productionDevDependencies,
+      devOnlyDependencies,
+    }),
+    ...(builtins && { builtins }),
+    ...(widened.length > 0 && { widened }),
+    ...(hasStaleIgnores && { staleIgnores }),
+    clean: isClean({
+      unresolved,
+      unused,
+      unimported,
+      missing,
+      unusedExports,
+      unusedDevDependencies,
+      productionDevDependencies,
+      devOnlyDependencies,
+    }),
+  };
+}
+
+// builtins and widened imports are informational, and don't affect clean
+export function isClean(result: Omit<ProcessedResult, 'clean'>): boolean {
+  return (
+    !result.unresolved.length &&
+    !result.unused.length &&
+    !result.unimported.length &&
+    !result.missing.length &&
+    !result.unusedExports?.length &&
+    !result.unusedDevDependencies?.length &&
+    !result.productionDevDependencies?.length &&
+    !result.devOnlyDependencies?.length
+  );
+}
+
+export interface Finding {
+  type:
+    | 'unimported'
+    | 'unused'
+    | 'unresolved'
+    | 'missing'
+    | 'unusedExport'
+    | 'unusedDevDependency'
+    | 'productionDevDependency'
+    | 'devOnlyDependency';
+  // the file, dependency or import path that the finding is about
+  value: string;
+}
+
+export interface ResultDiff {
+  // findings that are new in the next result
+  added: Finding[];
+  // findings of the previous result that are resolved
+  removed: Finding[];
+}
+
+// the findings by type, the types that weren't checked are left out
+export type FindingValues = Partial<Record<Finding['type'], string[]>>;
+
+function getExportValue(unusedExport: UnusedExport): string {
+  return `${unusedExport.loc.file}#${unusedExport.name}`;
+}
+
+export function getFindingValues(result: ProcessedResult): FindingValues {
+  return {
+    unimported: result.unimported,
+    unused: result.unused,
+    unresolved: result.unresolved.map((x) => x.path),
+    missing: result.missing.map((x) => x.name),
+    ...(result.unusedExports && {
+      unusedExport: result.unusedExports.map(getExportValue),
+    }),
+    ...(result.unusedDevDependencies && {
+      unusedDevDependency: result.unusedDevDependencies,
+    }),
+    ...(result.productionDevDependencies && {
+      productionDevDependency: result.productionDevDependencies,
+    }),
+    ...(result.devOnlyDependencies && {
+      devOnlyDependency: result.devOnlyDependencies,
+    }),
+  };
+}
+
+function getFindings(result: ProcessedResult): Finding[] {
+  return Object.entries(getFindingValues(result)).flatMap(([type, values]) =>
+    (values || []).map((value) => ({ type: type as Finding['type'], value })),
+  );
+}
+
+/**
+ * Only keep the findings that pass the filter, clean is updated accordingly
+ */
+export function filterFindings(
+  result: ProcessedResult,
+  keep: (finding: Finding) => boolean,
+): ProcessedResult {
+  const filter = (type: Finding['type']) => (value: string) =>
+    keep({ type, value });
+
+  const next: Omit<ProcessedResult, 'clean'> = {
+    ...result,
+    unimported: result.unimported.filter(filter('unimported')),
+    unused: result.unused.filter(filter('unused')),
+    unresolved: result.unresolved.filter((x) => filter('unresolved')(x.path)),
+    missing: result.missing.filter((x) => filter('missing')(x.name)),
+    unusedExports: result.unusedExports?.filter((x) =>
+      filter('unusedExport')(getExportValue(x)),
+    ),
+    unusedDevDependencies: result.unusedDevDependencies?.filter(
+      filter('unusedDevDependency'),
+    ),
+    productionDevDependencies: result.productionDevDependencies?.filter(
+      filter('productionDevDependency'),
+    ),
+    devOnlyDependencies: result.devOnlyDependencies?.filter(
+      filter('devOnlyDependency'),
+    ),
+  };
+
+  return { ...next, clean: isClean(next) };
+}
+
+/**
+ * Compare the findings of two results, to tell what changed between runs
+ */
+export function diffResults(
+  previous: ProcessedResult,
+  next: ProcessedResult,
+): ResultDiff {
+  const key = (finding: Finding) => `${finding.type}:${finding.value}`;
+  const before = getFindings(previous);
+  const after = getFindings(next);
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+
+  return {
+    added: after.filter((x) => !beforeKeys.has(key(x))),
+    removed: before.filter((x) => !afterKeys.has(key(x))),
   };
 }
@@ -0,0 +1,124 @@
+import type { SourcePosition } from './traverse';
+
+export interface ScriptBlock {
+  // the code of the block, padded with whitespace so that the positions of
+  // the code match those in the component file
+  code: string;
+  jsx: boolean;
+}
+
+export interface ExtractedScripts {
+  blocks: ScriptBlock[];
+  // external scripts, like `<script src="./x.ts">`
+  sources: { path: string; loc: SourcePosition }[];
+}
+
+const SFC_EXTENSIONS = ['.vue', '.svelte', '.astro'];
+
+// attribute values can contain `>`, like `generic="T extends Array<U>"`
+const SCRIPT_TAG =
+  /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>/;
+
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/;
+
+// astro components start with a typescript frontmatter block
+const FRONTMATTER = /^(\s*---[^\S\n]*\r?\n)([\s\S]*?)\r?\n---/;
+
+export function isSingleFileComponent(extname: string): boolean {
+  return SFC_EXTENSIONS.includes(extname);
+}
+
+function getAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = new RegExp(ATTRIBUTE.source, 'g');
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+
+  return attributes;
+}
+
+// the 1-based line and column of a character offset
+export function positionAt(code: string, index: number): SourcePosition {
+  const lines = code.slice(0, index).split('\n');
+
+  return {
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+  };
+}
+
+// keep the line breaks, so that line and column numbers remain the same
+function pad(code: string, start: number, end: number): string {
+  return code.slice(0, start).replace(/[^\n]/g, ' ') + code.slice(start, end);
+}
+
+// the parser fails on generics like <T> when parsing typescript as jsx
+function isJsx(lang?: string): boolean {
+  return lang !== 'ts' && lang !== 'typescript';
+}
+
+/**
+ * Extract the script blocks of Vue, Svelte and Astro components. This covers
+ * `<script setup lang="ts">`, `<script context="module">`, multiple script
+ * blocks per component, external scripts, and the frontmatter of Astro.
+ */
+export function extractScripts(
+  code: string,
+  extname: string,
+): ExtractedScripts {
+  const result: ExtractedScripts = { blocks: [], sources: [] };
+  let offset = 0;
+
+  if (extname === '.astro') {
+    const frontmatter = code.match(FRONTMATTER);
+
+    if (frontmatter) {
+      const start = frontmatter[1].length;
+      const end = start + frontmatter[2].length;
+      offset = frontmatter[0].length;
+      result.blocks.push({ code: pad(code, start, end), jsx: false });
+    }
+  }
+
+  const pattern = new RegExp(SCRIPT_TAG.source, 'gi');
+  pattern.lastIndex = offset;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code))) {
+    const [, attributeText, content] = match;
+    const { index } = match;
+    const attributes = getAttributes(attributeText);
+
+    // `text/x-template` and `application/json` don't hold code, and inline
+    // astro scripts are not processed by the bundler
+    if (
+      (attributes.type && !/script|module/.test(attributes.type)) ||
+      'is:inline' in attributes
+    ) {
+      continue;
+    }
+
+    if (attributes.src) {
+      if (!/^([a-z]+:)?\/\//i.test(attributes.src)) {
+        result.sources.push({
+          path: attributes.src,
+          loc: positionAt(code, index),
+        });
+      }
+      continue;
+    }
+
+    const start = index + `<script${attributeText}>`.length;
+    const end = start + content.length;
+
+    result.blocks.push({
+      code: pad(code, start, end),
+      jsx: isJsx(attributes.lang),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,200 @@
+import { dirname, extname, join } from 'path';
+import * as fs from './fs';
+import { positionAt } from './sfc';
+import type { SourcePosition } from './traverse';
+
+export interface StyleImport {
+  // `import` for @import, @use and @forward, `url` for url() references
+  type: 'import' | 'url';
+  path: string;
+  loc: SourcePosition;
+}
+
+const STYLE_EXTENSIONS = [
+  '.css',
+  '.scss',
+  '.sass',
+  '.less',
+  '.pcss',
+  '.postcss',
+];
+
+// files that are referenced, but don't reference other files
+const ASSET_EXTENSIONS = [
+  '.json',
+  '.png',
+  '.jpg',
+  '.jpeg',
+  '.gif',
+  '.svg',
+  '.webp',
+  '.avif',
+  '.ico',
+  '.bmp',
+  '.woff',
+  '.woff2',
+  '.ttf',
+  '.otf',
+  '.eot',
+  '.mp3',
+  '.mp4',
+  '.webm',
+  '.wav',
+];
+
+const SASS_EXTENSIONS = ['.scss', '.sass', '.css'];
+
+export function isStylesheet(extension: string): boolean {
+  return STYLE_EXTENSIONS.includes(extension);
+}
+
+export function isAsset(extension: string): boolean {
+  return ASSET_EXTENSIONS.includes(extension);
+}
+
+// replace comments by whitespace, to keep the positions of the references
+function stripComments(code: string, extension: string): string {
+  const blank = (comment: string) => comment.replace(/[^\n]/g, ' ');
+  const stripped = code.replace(/\/\*[\s\S]*?\*\//g, blank);
+
+  // `//` is only a comment in sass and less, and not in `url(http://x)`
+  return ['.scss', '.sass', '.less'].includes(extension)
+    ? stripped.replace(/(^|[^:\S])\/\/[^\n]*/gm, blank)
+    : stripped;
+}
+
+// external urls, data uris, fragments, and paths that are computed
+function isStatic(path: string): boolean {
+  return (
+    !!path &&
+    !/^([a-z]+:|\/\/|#)/i.test(path) &&
+    !/[$@]\{|#\{|\bvar\(/.test(path) &&
+    !path.startsWith('$') &&
+    !path.startsWith('@')
+  );
+}
+
+/**
+ * Extract the `@import`, `@use` and `@forward` rules, and the `url()`
+ * references of css, sass, scss, less and postcss files
+ */
+export function extractStyleImports(
+  code: string,
+  extension: string,
+): StyleImport[] {
+  const imports: StyleImport[] = [];
+  const source = stripComments(code, extension);
+
+  // @import 'a', 'b'; @use 'sass:math'; @import (reference) 'x.less';
+  const rules = /@(import|use|forward)\s+([^;{}\n]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = rules.exec(source))) {
+    const [rule, keyword, args] = match;
+    // url() references are picked up below
+    const list = args.replace(/url\([^)]*\)/g, (x) => ' '.repeat(x.length));
+    const strings = /(["'])(.*?)\1/g;
+    let found = false;
+    let value: RegExpExecArray | null;
+
+    while ((value = strings.exec(list))) {
+      found = true;
+      const path = value[2];
+
+      if (isStatic(path) && !path.startsWith('sass:')) {
+        imports.push({
+          type: 'import',
+          path,
+          loc: positionAt(
+            source,
+            match.index + rule.indexOf(args) + value.index,
+          ),
+        });
+      }
+
+      // @use and @forward take a single url, followed by options
+      if (keyword !== 'import') {
+        break;
+      }
+    }
+
+    // the indented sass syntax allows unquoted imports, `@import foo, bar`
+    if (!found && extension === '.sass' && keyword === 'import') {
+      for (const path of list.split(',').map((x) => x.trim())) {
+        if (isStatic(path) && !/\s/.test(path)) {
+          imports.push({
+            type: 'import',
+            path,
+            loc: positionAt(source, match.index),
+          });
+        }
+      }
+    }
+  }
+
+  const urls = /url\(\s*(["']?)([^"')]*)\1\s*\)/g;
+  while ((match = urls.exec(source))) {
+    const path = match[2].trim().replace(/[?#].*$/, '');
+
+    if (isStatic(path)) {
+      imports.push({ type: 'url', path, loc: positionAt(source, match.index) });
+    }
+  }
+
+  return imports.sort(
+    (a, b) => a.loc.line - b.loc.line || a.loc.column - b.loc.column,
+  );
+}
+
+// sass looks for partials, `_name.scss`, and for `_index.scss` in directories
+function getCandidates(ref: StyleImport, extension: string): string[] {
+  const { path } = ref;
+
+  if (ref.type === 'url') {
+    return [path];
+  }
+
+  if (extension === '.less') {
+    return extname(path) ? [path] : [`${path}.less`, path];
+  }
+
+  if (extension !== '.scss' && extension !== '.sass') {
+    return [path];
+  }
+
+  const partial = join(dirname(path), `_${path.split('/').pop()}`);
+
+  if (SASS_EXTENSIONS.includes(extname(path))) {
+    return [path, partial];
+  }
+
+  return SASS_EXTENSIONS.flatMap((ext) => [
+    `${path}${ext}`,
+    `${partial}${ext}`,
+  ]).concat(
+    SASS_EXTENSIONS.flatMap((ext) => [
+      join(path, `_index${ext}`),
+      join(path, `index${ext}`),
+    ]),
+  );
+}
+
+/**
+ * Resolve a stylesheet reference to an absolute path, relative to the
+ * stylesheet. Returns null when the file doesn't exist.
+ */
+export async function resolveStyleImport(
+  ref: StyleImport,
+  cwd: string,
+  extension: string,
+): Promise<string | null> {
+  for (const candidate of getCandidates(ref, extension)) {
+    const path = join(cwd, candidate).replace(/\\/g, '/');
+
+    if (await fs.exists(path)) {
+      return path;
+    }
+  }
+
+  return null;
+}
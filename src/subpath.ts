@@ -0,0 +1,122 @@
+export type SubpathTarget =
+  | string
+  | null
+  | SubpathTarget[]
+  | { [condition: string]: SubpathTarget };
+
+export type SubpathMap = { [subpath: string]: SubpathTarget };
+
+/**
+ * Pick the target of the first condition that is active, in the order in
+ * which the conditions are listed in package.json. `default` always matches.
+ */
+export function resolveTarget(
+  target: SubpathTarget | undefined,
+  conditions: string[],
+): string | null {
+  if (typeof target === 'string') {
+    return target;
+  }
+
+  if (Array.isArray(target)) {
+    for (const alternative of target) {
+      const resolved = resolveTarget(alternative, conditions);
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  if (target && typeof target === 'object') {
+    for (const [condition, value] of Object.entries(target)) {
+      if (condition !== 'default' && !conditions.includes(condition)) {
+        continue;
+      }
+
+      const resolved = resolveTarget(value, conditions);
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The exports field can be a single target, or a map of conditions, as
+ * shorthand for the `.` subpath.
+ */
+export function normalizeExports(exports: unknown): SubpathMap {
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return { '.': exports };
+  }
+
+  if (exports && typeof exports === 'object') {
+    const isSubpathMap = Object.keys(exports).some((key) =>
+      key.startsWith('.'),
+    );
+
+    return isSubpathMap
+      ? (exports as SubpathMap)
+      : { '.': exports as SubpathTarget };
+  }
+
+  return {};
+}
+
+/**
+ * Resolve a subpath like `./feature` or `#internal/util` against an exports
+ * or imports map. Exact matches win from patterns, and longer patterns win
+ * from shorter ones.
+ */
+export function resolveSubpath(
+  map: SubpathMap,
+  subpath: string,
+  conditions: string[],
+): string | null {
+  if (map[subpath] !== undefined && !subpath.includes('*')) {
+    return resolveTarget(map[subpath], conditions);
+  }
+
+  const patterns = Object.keys(map)
+    .filter((key) => {
+      const [prefix, suffix, ...rest] = key.split('*');
+      return (
+        suffix !== undefined &&
+        !rest.length &&
+        subpath.length >= prefix.length + suffix.length &&
+        subpath.startsWith(prefix) &&
+        subpath.endsWith(suffix)
+      );
+    })
+    .sort((a, b) => b.indexOf('*') - a.indexOf('*') || b.length - a.length);
+
+  const [pattern] = patterns;
+
+  if (!pattern) {
+    return null;
+  }
+
+  const [prefix, suffix] = pattern.split('*');
+  const match = subpath.slice(prefix.length, subpath.length - suffix.length);
+  const target = resolveTarget(map[pattern], conditions);
+
+  return target ? target.replace(/\*/g, match) : null;
+}
+
+/**
+ * List the targets of all subpaths, patterns are returned as glob, so that
+ * they can be expanded to the files that they expose.
+ */
+export function getSubpathTargets(
+  map: SubpathMap,
+  conditions: string[],
+): string[] {
+  return Object.keys(map)
+    .map((subpath) => resolveTarget(map[subpath], conditions))
+    .filter((target): target is string => !!target)
+    .map((target) => target.replace(/\*/g, '**/*'));
+}
@@ -1,4 +1,5 @@
-import { dirname, extname } from 'path';
+import { dirname, extname, join } from 'path';
+import { builtinModules } from 'module';
 
 import {
   AST_NODE_TYPES,
@@ -16,20 +17,96 @@ import removeFlowTypes from 'flow-remove-types';
 import { invalidateEntries, invalidateEntry, resolveEntry } from './cache';
 import { log } from './log';
 import { MapLike } from 'typescript';
+import { normalizeExports, resolveSubpath, SubpathMap } from './subpath';
+import type { ProjectAliases } from './meta';
+import type { Workspace } from './workspaces';
+import { extractScripts, isSingleFileComponent } from './sfc';
+import { getPlugin, Plugin } from './plugins';
+import {
+  extractStyleImports,
+  isAsset,
+  isStylesheet,
+  resolveStyleImport,
+  StyleImport,
+} from './styles';
+import {
+  expandGlobImport,
+  getDynamicPattern,
+  getGlobImport,
+  GlobImport,
+} from './globImports';
+
+export interface SourcePosition {
+  // 1-based, like editors and compilers report them
+  line: number;
+  column: number;
+}
+
+export interface ImportLocation extends SourcePosition {
+  file: string;
+}
+
+// an import as found in a file, the location is relative to FileStats.path
+export type FileImport = ResolvedResult & {
+  loc: SourcePosition;
+  // the imported names, `*` means that the whole module is used, for example
+  // by namespace imports, dynamic imports and require calls
+  names: string[];
+  // true for `export * from './x'`, which forwards all exports of the target
+  reexport?: boolean;
+};
+
+export interface FileExport {
+  name: string;
+  loc: SourcePosition;
+}
 
 export interface FileStats {
   path: string;
   extname: string;
   dirname: string;
-  imports: ResolvedResult[];
+  imports: FileImport[];
+  exports: FileExport[];
+  // import.meta.glob and require.context calls, expanded during traversal
+  globImports?: (GlobImport & { loc: SourcePosition })[];
 }
 
 export interface TraverseResult {
-  unresolved: Set<string>;
+  // maps unresolved import paths to the locations that import them
+  unresolved: Map<string, ImportLocation[]>;
+  // maps undeclared packages, that resolve into node_modules, to the locations that import them
+  missing: Map<string, ImportLocation[]>;
   files: Map<string, FileStats>;
   modules: Set<string>;
 }
 
+function getPackageName(path: string): string {
+  const [namespace, module] = path.split('/');
+  return path[0] === '@' ? `${namespace}/${module}` : namespace;
+}
+
+// bare specifiers, like `lodash` or `@scope/pkg/sub`, not `./x` or `/x`
+function isBareSpecifier(path: string): boolean {
+  return !path.startsWith('.') && !path.startsWith('/');
+}
+
+// built-ins that are only available with the `node:` prefix, these aren't
+// listed in `builtinModules` by every version of node
+const PREFIXED_BUILTINS = ['sea', 'sqlite', 'test', 'test/reporters'];
+
+// fs, fs/promises, node:path, or node:test which is only available with the
+// prefix. Unknown names, like node:fss, are not built-ins
+function getBuiltinName(path: string): string | null {
+  if (path.startsWith('node:')) {
+    const name = path.substr('node:'.length);
+    return builtinModules.includes(name) || PREFIXED_BUILTINS.includes(name)
+      ? name
+      : null;
+  }
+
+  return builtinModules.includes(path) ? path : null;
+}
+
 function getDependencyName(
   path: string,
   config: TraverseConfig,
@@ -38,8 +115,7 @@ function getDependencyName(
     return path;
   }
 
-  const [namespace, module] = path.split('/');
-  const name = path[0] === '@' ? `${namespace}/${module}` : namespace;
+  const name = getPackageName(path);
 
   if (config.dependencies[name]) {
     return name;
@@ -62,16 +138,144 @@ export type ResolvedResult =
       type: 'source_file';
       path: string;
     }
+  | {
+      type: 'builtin';
+      name: string;
+      path: string;
+    }
+  | {
+      // a package of the workspace, resolved to its source file
+      type: 'workspace_module';
+      name: string;
+      path: string;
+    }
+  | {
+      type: 'missing_module';
+      name: string;
+      path: string;
+    }
   | {
       type: 'unresolved';
       path: string;
     };
 
+// the aliases of the deepest referenced project that contains the importer
+function getAliasMap(cwd: string, config: TraverseConfig): MapLike<string[]> {
+  const project = (config.projectAliases || [])
+    .filter((x) => cwd === x.root || cwd.startsWith(`${x.root}/`))
+    .sort((a, b) => b.root.length - a.root.length)[0];
+
+  return project ? project.aliases : config.aliases;
+}
+
+// `#internal/util` through the imports field, or `own-name/feature` through
+// the exports field of the package that is being analysed
+function resolvePackageSubpath(
+  path: string,
+  cwd: string,
+  config: TraverseConfig,
+): ResolvedResult | null {
+  const scope = config.packageScope;
+
+  if (!scope) {
+    return null;
+  }
+
+  let target: string | null;
+
+  if (path.startsWith('#')) {
+    target = resolveSubpath(scope.imports || {}, path, config.conditions);
+  } else if (
+    scope.name &&
+    scope.exports &&
+    (path === scope.name || path.startsWith(`${scope.name}/`))
+  ) {
+    target = resolveSubpath(
+      normalizeExports(scope.exports),
+      `.${path.substr(scope.name.length)}`,
+      config.conditions,
+    );
+  } else {
+    return null;
+  }
+
+  if (!target) {
+    return { type: 'unresolved', path };
+  }
+
+  // imports can also map to dependencies, `"#fetch": "node-fetch"`
+  if (!target.startsWith('./')) {
+    return resolveImport(target, cwd, config);
+  }
+
+  try {
+    return {
+      type: 'source_file',
+      path: resolve
+        .sync(join(scope.root, target), {
+          basedir: cwd,
+          extensions: config.extensions,
+        })
+        .replace(/\\/g, '/'),
+    };
+  } catch (e) {
+    return { type: 'unresolved', path };
+  }
+}
+
+// imports of other packages in the workspace, are resolved to their source
+function resolveWorkspaceImport(
+  path: string,
+  config: TraverseConfig,
+): ResolvedResult | null {
+  const workspace = (config.workspaces || []).find(
+    (x) => path === x.name || path.startsWith(`${x.name}/`),
+  );
+
+  if (!workspace) {
+    return null;
+  }
+
+  const { source, exports } = workspace.packageJson;
+  const subpath = `.${path.substr(workspace.name.length)}`;
+
+  const target =
+    subpath === '.' && source
+      ? source
+      : exports
+      ? resolveSubpath(normalizeExports(exports), subpath, config.conditions)
+      : subpath;
+
+  try {
+    return {
+      type: 'workspace_module',
+      name: workspace.name,
+      path: resolve
+        .sync(join(workspace.dir, target || subpath), {
+          basedir: workspace.dir,
+          extensions: config.extensions,
+        })
+        .replace(/\\/g, '/'),
+    };
+  } catch (e) {
+    // not built yet, or not exported, treat it as a regular dependency
+    return null;
+  }
+}
+
 export function resolveImport(
   path: string,
   cwd: string,
   config: TraverseConfig,
 ): ResolvedResult {
+  const subpathResult =
+    resolvePackageSubpath(path, cwd, config) ||
+    resolveWorkspaceImport(path, config);
+
+  if (subpathResult) {
+    return subpathResult;
+  }
+
   const dependencyName = getDependencyName(path, config);
 
   if (dependencyName) {
@@ -82,32 +286,57 @@ export function resolveImport(
     };
   }
 
+  // declared dependencies win from built-ins without prefix, like the
+  // `events` or `buffer` polyfills that are used by bundlers
+  const builtinName = getBuiltinName(path);
+
+  if (builtinName) {
+    return {
+      type: 'builtin',
+      name: builtinName,
+      path,
+    };
+  }
+
   try {
+    const resolved = resolve
+      .sync(path, {
+        basedir: cwd,
+        extensions: config.extensions,
+        moduleDirectory: config.moduleDirectory,
+      })
+      .replace(/\\/g, '/');
+
+    // the package is installed, but isn't listed in package.json
+    if (isBareSpecifier(path) && resolved.includes('/node_modules/')) {
+      return {
+        type: 'missing_module',
+        name: getPackageName(path),
+        path,
+      };
+    }
+
     return {
       type: 'source_file',
-      path: resolve
-        .sync(path, {
-          basedir: cwd,
-          extensions: config.extensions,
-          moduleDirectory: config.moduleDirectory,
-        })
-        .replace(/\\/g, '/'),
+      path: resolved,
     };
   } catch (e) {}
 
+  const aliasMap = getAliasMap(cwd, config);
+
   // import { random } from '@helpers'
-  if (config.aliases[`${path}/`]) {
+  if (aliasMap[`${path}/`]) {
     // append a slash to the path so that the resolve logic below recognizes this as an /index import
     path = `${path}/`;
   }
 
   // import random from '@helpers/random' > '@helpers/random'.startsWith('@helpers/')
-  const aliases = Object.keys(config.aliases).filter((alias) =>
+  const aliases = Object.keys(aliasMap).filter((alias) =>
     path.startsWith(alias),
   );
 
   for (const alias of aliases) {
-    for (const alt of config.aliases[alias]) {
+    for (const alt of aliasMap[alias]) {
       try {
         return {
           type: 'source_file',
@@ -145,31 +374,73 @@ export function resolveImport(
   };
 }
 
-function extractFromScriptTag(code: string) {
-  const lines = code.split('\n');
-  let start = -1;
-  let end = -1;
+function getPosition(node: TSESTree.Node): SourcePosition {
+  return {
+    line: node.loc.start.line,
+    column: node.loc.start.column + 1,
+  };
+}
+
+// collect the identifiers that are declared by a (destructuring) pattern
+function getDeclaredNames(node: TSESTree.Node | null): string[] {
+  if (!node) {
+    return [];
+  }
 
-  // walk the code from start to end to find the first <script> tag on it's own line
-  for (let idx = 0; idx < lines.length; idx++) {
-    if (lines[idx].trim() === '<script>') {
-      start = idx;
-      break;
-    }
+  switch (node.type) {
+    case AST_NODE_TYPES.Identifier:
+      return [node.name];
+    case AST_NODE_TYPES.ObjectPattern:
+      return node.properties.flatMap((property) =>
+        getDeclaredNames(
+          property.type === AST_NODE_TYPES.Property ? property.value : property,
+        ),
+      );
+    case AST_NODE_TYPES.ArrayPattern:
+      return node.elements.flatMap(getDeclaredNames);
+    case AST_NODE_TYPES.AssignmentPattern:
+      return getDeclaredNames(node.left);
+    case AST_NODE_TYPES.RestElement:
+      return getDeclaredNames(node.argument);
+    default:
+      return [];
   }
+}
 
-  // walk the code in reverse to find the last </script> tag on it's own line
-  for (let idx = lines.length - 1; idx >= 0; idx--) {
-    if (lines[idx].trim() === '</script>') {
-      end = idx;
-      break;
-    }
+function getExportedNames(declaration: TSESTree.Node): string[] {
+  if (declaration.type === AST_NODE_TYPES.VariableDeclaration) {
+    return declaration.declarations.flatMap((x) => getDeclaredNames(x.id));
   }
 
-  return start > -1 && end > -1 ? lines.slice(start + 1, end).join('\n') : '';
+  // functions, classes, enums, interfaces, types and namespaces
+  const id = (declaration as { id?: TSESTree.Node | null }).id;
+  return id?.type === AST_NODE_TYPES.Identifier ? [id.name] : [];
 }
 
-async function parse(path: string, config: TraverseConfig): Promise<FileStats> {
+// stylesheet references are relative, unless they're prefixed with `~`, or
+// don't exist next to the stylesheet, like `@use 'bootstrap/scss/grid'`
+async function resolveStylesheetImport(
+  ref: StyleImport,
+  stats: FileStats,
+  config: TraverseConfig,
+): Promise<ResolvedResult> {
+  if (ref.path.startsWith('~')) {
+    return resolveImport(ref.path.substr(1), stats.dirname, config);
+  }
+
+  const resolved = await resolveStyleImport(ref, stats.dirname, stats.extname);
+
+  return resolved
+    ? { type: 'source_file', path: resolved }
+    : resolveImport(ref.path, stats.dirname, config);
+}
+
+// the code defaults to the contents of the file
+async function parse(
+  path: string,
+  config: TraverseConfig,
+  source?: string,
+): Promise<FileStats> {
   log.info('parse %s', path);
 
   const stats: FileStats = {
@@ -177,29 +448,90 @@ async function parse(path: string, config: TraverseConfig): Promise<FileStats> {
     extname: extname(path),
     dirname: dirname(path),
     imports: [],
+    exports: [],
   };
 
-  // this jsx check isn't bullet proof, but I have no idea how we can deal with
-  // this better. The parser will fail on generics like <T> in jsx files, if we
-  // don't specify those as being jsx.
-  let code = await fs.readText(path);
+  const plugin = getPlugin(config.plugins, path);
 
-  // removeFlowTypes checks for pragma's, use app arguments to override and
-  // strip flow annotations from all files, regardless if it contains the pragma
-  code = removeFlowTypes(code, { all: config.flow }).toString();
+  // plugins take precedence, so that they can replace the built-in parsers
+  if (plugin) {
+    const code = source ?? (await fs.readText(path));
 
-  if (stats.extname === '.vue') {
-    code = extractFromScriptTag(code);
+    for (const specifier of await plugin.extract(code, path)) {
+      stats.imports.push({
+        ...resolveImport(specifier.path, stats.dirname, config),
+        loc: specifier.loc,
+        names: specifier.names || ['*'],
+      });
+    }
+
+    return stats;
+  }
+
+  // images, fonts and data files don't import anything
+  if (isAsset(stats.extname)) {
+    return stats;
+  }
+
+  const code = source ?? (await fs.readText(path));
+
+  if (isStylesheet(stats.extname)) {
+    for (const ref of extractStyleImports(code, stats.extname)) {
+      stats.imports.push({
+        ...(await resolveStylesheetImport(ref, stats, config)),
+        loc: ref.loc,
+        names: ['*'],
+      });
+    }
+
+    return stats;
   }
 
-  const ast = parseEstree(code, {
-    comment: false,
-    jsx: stats.extname !== '.ts',
-  });
+  // this jsx check isn't bullet proof, but I have no idea how we can deal with
+  // this better. The parser will fail on generics like <T> in jsx files, if we
+  // don't specify those as being jsx.
+  const { blocks, sources } = isSingleFileComponent(stats.extname)
+    ? extractScripts(code, stats.extname)
+    : { blocks: [{ code, jsx: stats.extname !== '.ts' }], sources: [] };
+
+  // <script src="./x.ts"></script>
+  for (const source of sources) {
+    stats.imports.push({
+      ...resolveImport(source.path, stats.dirname, config),
+      loc: source.loc,
+      names: ['*'],
+    });
+  }
 
-  Traverser.traverse(ast, {
+  const visitor = {
     enter(node: TSESTree.Node) {
       let target;
+      let names: string[] = ['*'];
+      let reexport = false;
+
+      const addExports = (exported: string[]) => {
+        for (const name of exported) {
+          stats.exports.push({ name, loc: getPosition(node) });
+        }
+      };
+
+      const addGlobImport = (globImport: GlobImport) => {
+        stats.globImports = stats.globImports || [];
+        stats.globImports.push({ ...globImport, loc: getPosition(node) });
+      };
+
+      // import(`./locales/${lang}.js`) matches all files in ./locales
+      const widenImport = (expression: TSESTree.Node) => {
+        const pattern = getDynamicPattern(expression);
+        if (pattern) {
+          addGlobImport({
+            type: 'glob',
+            patterns: [pattern],
+            names: ['*'],
+            dynamic: true,
+          });
+        }
+      };
 
       switch (node.type) {
         // import x from './x';
@@ -208,23 +540,48 @@ async function parse(path: string, config: TraverseConfig): Promise<FileStats> {
             break;
           }
           target = (node.source as Literal).value as string;
+          names = node.specifiers.map((specifier) =>
+            specifier.type === AST_NODE_TYPES.ImportSpecifier
+              ? specifier.imported.name
+              : specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier
+              ? 'default'
+              : '*',
+          );
           break;
 
-        // export { x } from './x';
+        // export const x = 1; export { x }; export { x } from './x';
         case AST_NODE_TYPES.ExportNamedDeclaration:
+          addExports([
+            ...(node.declaration ? getExportedNames(node.declaration) : []),
+            ...node.specifiers.map((x) => x.exported.name),
+          ]);
+
           if (!node.source || !(node.source as Literal).value) {
             break;
           }
           target = (node.source as Literal).value as string;
+          names = node.specifiers.map((x) => x.local.name);
           break;
 
-        // export * from './x';
+        // export default x;
+        case AST_NODE_TYPES.ExportDefaultDeclaration:
+          addExports(['default']);
+          break;
+
+        // export * from './x'; export * as x from './x';
         case AST_NODE_TYPES.ExportAllDeclaration:
           if (!node.source) {
             break;
           }
 
           target = (node.source as Literal).value as string;
+
+          if (node.exported) {
+            addExports([node.exported.name]);
+          } else {
+            names = [];
+            reexport = true;
+          }
           break;
 
         // import('.x') || await import('.x')
@@ -242,43 +599,177 @@ async function parse(path: string, config: TraverseConfig): Promise<FileStats> {
           } else {
             target = (source as Literal).value;
           }
+
+          if (!target) {
+            widenImport(source);
+          }
           break;
 
         // require('./x') || await require('./x')
         case AST_NODE_TYPES.CallExpression: {
+          // import.meta.glob('./x/*.js') || require.context('./x')
+          const globImport = getGlobImport(node);
+          if (globImport) {
+            addGlobImport(globImport);
+            break;
+          }
+
           if ((node.callee as Identifier)?.name !== 'require') {
             break;
           }
 
           target = (node.arguments[0] as Literal).value;
+
+          if (!target && node.arguments[0]) {
+            widenImport(node.arguments[0]);
+          }
           break;
         }
       }
 
       if (target) {
         const resolved = resolveImport(target, stats.dirname, config);
-        stats.imports.push(resolved);
+        stats.imports.push({
+          ...resolved,
+          loc: getPosition(node),
+          names,
+          ...(reexport && { reexport }),
+        });
       }
     },
-  });
+  };
+
+  for (const block of blocks) {
+    // removeFlowTypes checks for pragma's, use app arguments to override and
+    // strip flow annotations from all files, regardless if it contains the pragma
+    const ast = parseEstree(
+      removeFlowTypes(block.code, { all: config.flow }).toString(),
+      {
+        comment: false,
+        loc: true,
+        jsx: block.jsx,
+      },
+    );
+
+    Traverser.traverse(ast, visitor);
+  }
 
   return stats;
 }
 
+/**
+ * Parse code as the contents of path, like a previous revision of the file.
+ * The imports are resolved against the current files.
+ */
+export function parseCode(
+  path: string,
+  code: string,
+  config: TraverseConfig,
+): Promise<FileStats> {
+  return parse(path, config, code);
+}
+
+async function expandGlobImports(
+  stats: FileStats,
+  config: TraverseConfig,
+): Promise<FileImport[]> {
+  const root = config.packageScope?.root || process.cwd();
+  const aliases = getAliasMap(stats.dirname, config);
+  const imports: FileImport[] = [];
+
+  for (const globImport of stats.globImports || []) {
+    const files = await expandGlobImport(
+      globImport,
+      stats.dirname,
+      root,
+      aliases,
+    );
+
+    for (const file of files) {
+      if (file === stats.path) {
+        continue;
+      }
+
+      imports.push({
+        type: 'source_file',
+        path: file,
+        loc: globImport.loc,
+        names: globImport.type === 'glob' ? globImport.names : ['*'],
+      });
+    }
+  }
+
+  return imports;
+}
+
 export const getResultObject = () => ({
-  unresolved: new Set<string>(),
+  unresolved: new Map<string, ImportLocation[]>(),
+  missing: new Map<string, ImportLocation[]>(),
   modules: new Set<string>(),
   files: new Map<string, FileStats>(),
 });
 
+function addLocation(
+  map: Map<string, ImportLocation[]>,
+  key: string,
+  location: ImportLocation,
+): void {
+  const locations = map.get(key) || [];
+
+  const exists = locations.some(
+    (x) =>
+      x.file === location.file &&
+      x.line === location.line &&
+      x.column === location.column,
+  );
+
+  if (!exists) {
+    locations.push(location);
+  }
+
+  map.set(key, locations);
+}
+
+export function addUnresolved(
+  result: TraverseResult,
+  path: string,
+  location: ImportLocation,
+): void {
+  addLocation(result.unresolved, path, location);
+}
+
+export function addMissing(
+  result: TraverseResult,
+  name: string,
+  location: ImportLocation,
+): void {
+  addLocation(result.missing, name, location);
+}
+
 export interface TraverseConfig {
   aliases: MapLike<string[]>;
+  // aliases of referenced typescript projects, for files inside those projects
+  projectAliases?: ProjectAliases[];
   extensions: string[];
   moduleDirectory: string[];
   cacheId?: string;
   flow?: boolean;
   preset?: string;
   dependencies: MapLike<string>;
+  // condition names used to resolve the exports and imports of package.json
+  conditions: string[];
+  packageScope?: PackageScope;
+  // the other packages of the workspace, when running in workspace mode
+  workspaces?: Workspace[];
+  plugins?: Plugin[];
+}
+
+export interface PackageScope {
+  // the directory that contains package.json
+  root: string;
+  name?: string;
+  exports?: unknown;
+  imports?: SubpathMap;
 }
 
 export async function traverse(
@@ -296,7 +787,7 @@ export async function traverse(
     return result;
   }
 
-  // only process code files, no json or css
+  // only process the configured extensions, stylesheets and assets are opt-in
   if (!config.extensions.includes(extname(path))) {
     return result;
   }
@@ -306,6 +797,18 @@ export async function traverse(
     parseResult = config.cacheId
       ? await resolveEntry(path, () => parse(path, config), config.cacheId)
       : await parse(path, config);
+
+    if (parseResult.globImports) {
+      // don't mutate the cached stats, the matches are listed on every run
+      parseResult = {
+        ...parseResult,
+        imports: [
+          ...parseResult.imports,
+          ...(await expandGlobImports(parseResult, config)),
+        ],
+      };
+    }
+
     result.files.set(path, parseResult);
 
     for (const file of parseResult.imports) {
@@ -313,8 +816,15 @@ export async function traverse(
         case 'node_module':
           result.modules.add(file.name);
           break;
+        case 'workspace_module':
+          // the package traverses its own files, with its own config
+          result.modules.add(file.name);
+          break;
+        case 'missing_module':
+          addMissing(result, file.name, { file: path, ...file.loc });
+          break;
         case 'unresolved':
-          result.unresolved.add(file.path);
+          addUnresolved(result, file.path, { file: path, ...file.loc });
           break;
         case 'source_file':
           if (result.files.has(file.path)) {
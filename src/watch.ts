@@ -0,0 +1,332 @@
+import { existsSync, FSWatcher, readdirSync, statSync, watch } from 'fs';
+import path from 'path';
+import {
+  AnalyzeOptions,
+  EntryTraversal,
+  getContext,
+  getReport,
+  Report,
+  traverseEntries,
+  traverseFile,
+} from './analyze';
+import { getDevEntryFiles } from './config';
+import { invalidateEntry, storeCache } from './cache';
+import {
+  addMissing,
+  addUnresolved,
+  getResultObject,
+  TraverseResult,
+} from './traverse';
+import { log } from './log';
+
+export interface WatchSession {
+  options: AnalyzeOptions;
+  traversals: EntryTraversal[];
+  devTraversals?: EntryTraversal[];
+  report: Report;
+}
+
+export interface WatchHandlers {
+  onReport(report: Report, previous: Report, changed: string[]): void;
+  onError(error: Error): void;
+}
+
+export interface Watcher {
+  close(): void;
+}
+
+// wait for editors and git to finish writing files
+const DEBOUNCE = 100;
+
+export async function startSession(
+  options: AnalyzeOptions,
+): Promise<WatchSession> {
+  const context = await getContext(options);
+  const { config, cwd } = context;
+  const traversals = await traverseEntries(config.entryFiles, context);
+  const devTraversals = options.checkDevDependencies
+    ? await traverseEntries(await getDevEntryFiles(config, cwd), context)
+    : undefined;
+
+  return {
+    options: { ...options, cwd },
+    traversals,
+    devTraversals,
+    report: await getReport(context, traversals, devTraversals),
+  };
+}
+
+// drop the files that are no longer reachable from the entry file, and collect
+// the modules, missing and unresolved imports of the remaining files
+function prune(entry: string, files: TraverseResult['files']): TraverseResult {
+  const result = getResultObject();
+  const queue = [entry];
+
+  while (queue.length) {
+    const file = queue.shift() as string;
+    const stats = files.get(file);
+
+    if (!stats || result.files.has(file)) {
+      continue;
+    }
+
+    result.files.set(file, stats);
+
+    for (const x of stats.imports) {
+      switch (x.type) {
+        case 'node_module':
+        case 'workspace_module':
+          result.modules.add(x.name);
+          break;
+        case 'missing_module':
+          addMissing(result, x.name, { file, ...x.loc });
+          break;
+        case 'unresolved':
+          addUnresolved(result, x.path, { file, ...x.loc });
+          break;
+        case 'source_file':
+          queue.push(x.path);
+          break;
+      }
+    }
+  }
+
+  result.files = new Map([...result.files].sort());
+  return result;
+}
+
+/**
+ * Files that need to be parsed again. Besides the changed files, that are the
+ * importers of removed files, and when files are added or removed, the files
+ * with unresolved imports or import globs, as those can now resolve
+ * differently.
+ */
+function getDirtyFiles(
+  traversals: EntryTraversal[],
+  changed: string[],
+): Set<string> {
+  const dirty = new Set(changed);
+  const known = (file: string) =>
+    traversals.some((x) => x.result.files.has(file));
+
+  const removed = changed.filter((file) => !existsSync(file));
+  const added = changed.filter((file) => existsSync(file) && !known(file));
+
+  if (!removed.length && !added.length) {
+    return dirty;
+  }
+
+  for (const { result } of traversals) {
+    for (const [file, stats] of result.files) {
+      if (
+        stats.globImports?.length ||
+        stats.imports.some(
+          (x) => x.type === 'unresolved' || removed.includes(x.path),
+        )
+      ) {
+        dirty.add(file);
+      }
+    }
+  }
+
+  return dirty;
+}
+
+async function updateTraversal(
+  traversal: EntryTraversal,
+  dirty: Set<string>,
+  cwd: string,
+): Promise<EntryTraversal> {
+  const stale = Array.from(traversal.result.files.keys()).filter((file) =>
+    dirty.has(file),
+  );
+
+  if (!stale.length) {
+    return traversal;
+  }
+
+  let result: TraverseResult = {
+    ...getResultObject(),
+    files: new Map(traversal.result.files),
+  };
+
+  for (const file of stale) {
+    result.files.delete(file);
+  }
+
+  // the files that are still known are not parsed again
+  for (const file of [traversal.file, ...stale]) {
+    if (!result.files.has(file) && existsSync(file)) {
+      result = await traverseFile(file, traversal.config, cwd, result);
+    }
+  }
+
+  return { ...traversal, result: prune(traversal.file, result.files) };
+}
+
+/**
+ * Update the session for the changed files. Only the changed files, and the
+ * files that might resolve differently, are parsed again.
+ */
+export async function updateSession(
+  session: WatchSession,
+  changed: string[],
+): Promise<Report> {
+  const { context } = session.report;
+  const { cwd } = context;
+
+  // changes to the config or the resolver restart the analysis, instead of
+  // updating the graph
+  if (changed.some((file) => context.config.configFiles.includes(file))) {
+    Object.assign(session, await startSession(session.options));
+    return session.report;
+  }
+
+  const traversals = [...session.traversals, ...(session.devTraversals || [])];
+  const dirty = getDirtyFiles(traversals, changed);
+
+  // keep the cache in line with the graph
+  for (const file of dirty) {
+    invalidateEntry(file);
+  }
+
+  const update = (list: EntryTraversal[]) =>
+    Promise.all(list.map((x) => updateTraversal(x, dirty, cwd)));
+
+  session.traversals = await update(session.traversals);
+  session.devTraversals = session.devTraversals
+    ? await update(session.devTraversals)
+    : undefined;
+
+  if (context.cache) {
+    storeCache();
+  }
+
+  session.report = await getReport(
+    context,
+    session.traversals,
+    session.devTraversals,
+  );
+
+  return session.report;
+}
+
+function isIgnoredDirectory(name: string): boolean {
+  return name === 'node_modules' || name.startsWith('.');
+}
+
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Watch the project for changes, and update the session on every change. The
+ * handlers receive the next report, and the report before the change.
+ */
+export function watchSession(
+  session: WatchSession,
+  handlers: WatchHandlers,
+): Watcher {
+  const { cwd } = session.report.context;
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  const flush = () => {
+    const changed = Array.from(pending).sort();
+    pending.clear();
+
+    running = running.then(async () => {
+      const previous = session.report;
+
+      try {
+        log.info('update %O', changed);
+        const report = await updateSession(session, changed);
+        watchConfigFiles();
+        handlers.onReport(report, previous, changed);
+      } catch (error) {
+        handlers.onError(error);
+      }
+    });
+  };
+
+  const watchDirectory = (dir: string) => {
+    if (watchers.has(dir)) {
+      return;
+    }
+
+    const watcher = watch(dir, (event, name) => {
+      if (!name) {
+        return;
+      }
+
+      const file = path.join(dir, name.toString()).replace(/\\/g, '/');
+
+      // only the config files are of interest outside the project
+      if (
+        !isInside(cwd, file) &&
+        !session.report.context.config.configFiles.includes(file)
+      ) {
+        return;
+      }
+
+      if (existsSync(file) && statSync(file).isDirectory()) {
+        if (!isIgnoredDirectory(name.toString())) {
+          watchTree(file);
+        }
+        return;
+      }
+
+      pending.add(file);
+      clearTimeout(timer as NodeJS.Timeout);
+      timer = setTimeout(flush, DEBOUNCE);
+    });
+
+    // the directory is removed
+    watcher.on('error', () => {
+      watcher.close();
+      watchers.delete(dir);
+    });
+
+    watchers.set(dir, watcher);
+  };
+
+  const watchTree = (dir: string) => {
+    watchDirectory(dir);
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory() && !isIgnoredDirectory(entry.name)) {
+        watchTree(path.join(dir, entry.name));
+      }
+    }
+  };
+
+  // configs outside the project, like a tsconfig that is extended from the
+  // root of a monorepo
+  const watchConfigFiles = () => {
+    for (const file of session.report.context.config.configFiles) {
+      const dir = path.dirname(file);
+
+      if (
+        !isInside(cwd, dir) &&
+        !dir.split(path.sep).includes('node_modules') &&
+        existsSync(dir)
+      ) {
+        watchDirectory(dir);
+      }
+    }
+  };
+
+  watchTree(cwd);
+  watchConfigFiles();
+
+  return {
+    close() {
+      clearTimeout(timer as NodeJS.Timeout);
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+    },
+  };
+}
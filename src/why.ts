@@ -0,0 +1,96 @@
+import path from 'path';
+import { TraverseResult } from './traverse';
+
+export interface ImportChain {
+  entry: string;
+  // the files that lead from the entry file to the target, including both
+  chain: string[];
+}
+
+function getCandidates(
+  target: string,
+  extensions: string[],
+  cwd: string,
+): string[] {
+  const file = path.resolve(cwd, target).replace(/\\/g, '/');
+  return [
+    file,
+    ...extensions.map((ext) => `${file}${ext}`),
+    ...extensions.map((ext) => `${file}/index${ext}`),
+  ];
+}
+
+/**
+ * Find the shortest import chain from every entry file to the target, which
+ * can either be a source file path or the name of a node module.
+ */
+export function findImportChains(
+  target: string,
+  entryFiles: string[],
+  traverseResult: TraverseResult,
+  extensions: string[],
+  cwd = process.cwd(),
+): ImportChain[] {
+  const candidates = getCandidates(target, extensions, cwd);
+  const isModule =
+    traverseResult.modules.has(target) || traverseResult.missing.has(target);
+
+  const isTarget = (file: string) =>
+    isModule
+      ? !!traverseResult.files
+          .get(file)
+          ?.imports.some(
+            (x) =>
+              (x.type === 'node_module' || x.type === 'missing_module') &&
+              x.name === target,
+          )
+      : candidates.includes(file);
+
+  const chains: ImportChain[] = [];
+
+  for (const entry of entryFiles) {
+    const start = path.resolve(cwd, entry).replace(/\\/g, '/');
+
+    if (!traverseResult.files.has(start)) {
+      continue;
+    }
+
+    // breadth first, so the first match is the shortest chain
+    const parents = new Map<string, string | null>([[start, null]]);
+    const queue = [start];
+    let match: string | undefined;
+
+    while (queue.length) {
+      const file = queue.shift() as string;
+
+      if (isTarget(file)) {
+        match = file;
+        break;
+      }
+
+      for (const next of traverseResult.files.get(file)?.imports || []) {
+        if (next.type !== 'source_file' || parents.has(next.path)) {
+          continue;
+        }
+
+        parents.set(next.path, file);
+        queue.push(next.path);
+      }
+    }
+
+    if (!match) {
+      continue;
+    }
+
+    const chain: string[] = isModule ? [target] : [];
+    let file: string | undefined = match;
+    while (file) {
+      chain.unshift(file);
+      file = parents.get(file) ?? undefined;
+    }
+
+    chains.push({ entry, chain });
+  }
+
+  return chains;
+}
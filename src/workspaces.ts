@@ -0,0 +1,91 @@
+import path from 'path';
+import * as fs from './fs';
+import { expandGlob } from './config';
+import { PackageJson } from './index';
+
+export interface Workspace {
+  name: string;
+  // absolute path to the package directory
+  dir: string;
+  packageJson: PackageJson;
+}
+
+// only the `packages` list is read, as that's all that pnpm-workspace.yaml holds
+function parsePnpmWorkspace(text: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+
+    if (!inPackages) {
+      continue;
+    }
+
+    const match = line.match(/^\s+-\s+['"]?([^'"#\s]+)['"]?\s*(#.*)?$/);
+
+    if (match) {
+      patterns.push(match[1]);
+    } else if (/^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+
+  return patterns;
+}
+
+async function getWorkspacePatterns(cwd: string): Promise<string[]> {
+  const packageJson = await fs.readJson<PackageJson>('package.json', cwd);
+
+  // npm and yarn use an array, yarn classic also supports { packages: [] }
+  const workspaces = packageJson?.workspaces;
+  if (workspaces) {
+    return Array.isArray(workspaces) ? workspaces : workspaces.packages || [];
+  }
+
+  const pnpmWorkspace = await fs.readText('pnpm-workspace.yaml', cwd);
+  return pnpmWorkspace ? parsePnpmWorkspace(pnpmWorkspace) : [];
+}
+
+/**
+ * Find the packages of an npm, yarn or pnpm workspace. Globs are expanded
+ * relative to cwd, which should be the workspace root.
+ */
+export async function getWorkspaces(cwd: string): Promise<Workspace[]> {
+  const patterns = await getWorkspacePatterns(cwd);
+
+  const include = patterns
+    .filter((x) => !x.startsWith('!'))
+    .map((x) => `${x.replace(/\/$/, '')}/package.json`);
+
+  const exclude = patterns
+    .filter((x) => x.startsWith('!'))
+    .flatMap((x) => [x.substr(1), `${x.substr(1).replace(/\/$/, '')}/**`]);
+
+  const files = await expandGlob(
+    include,
+    ['**/node_modules/**', ...exclude],
+    cwd,
+  );
+  const workspaces: Workspace[] = [];
+
+  for (const file of files.sort()) {
+    const dir = await fs.realpath(path.dirname(file), cwd);
+    const packageJson = await fs.readJson<PackageJson>('package.json', dir);
+
+    if (!packageJson || dir === (await fs.realpath('.', cwd))) {
+      continue;
+    }
+
+    workspaces.push({
+      name: packageJson.name || path.relative(cwd, dir).replace(/\\/g, '/'),
+      dir: dir.replace(/\\/g, '/'),
+      packageJson,
+    });
+  }
+
+  return workspaces;
+}